@@ -0,0 +1,173 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useMemo,
+  type ReactNode,
+} from 'react';
+import { bindRequests } from './client';
+import type { Client } from './client';
+import { useClient } from './client-context';
+import type { FetchData } from './http';
+
+export type AbortScope = {
+  /** Aborts with the scope (or its parent). Replaced by `reset`, so read it when you need it. */
+  readonly signal: AbortSignal;
+  /** The scope's client: every request made through it carries `signal` */
+  readonly client: Client;
+  abort(reason?: unknown): void;
+  /** Start over after an abort; requests made from now on get a fresh signal */
+  reset(): void;
+  /**
+   * Take-latest: abort whatever was started through the previous `latest(key)` client
+   * and return a fresh one. Use one key per independent stream (search box, tab, …).
+   */
+  latest(key?: string): Client;
+  /** A nested scope that aborts along with this one */
+  child(): AbortScope;
+};
+
+function combine(...signals: Array<AbortSignal | null | undefined>) {
+  const defined = signals.filter((signal): signal is AbortSignal => !!signal);
+  return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+}
+
+// Binding a client builds its batcher and optimistic helpers; do that once per signal
+const boundBySignal = new WeakMap<Client, WeakMap<AbortSignal, Client>>();
+
+/**
+ * The same client with `signal` attached to every request, alongside any signal the
+ * caller passes. Pass a function to read the signal at request time instead.
+ */
+export function withSignal(client: Client, signal: AbortSignal | (() => AbortSignal)): Client {
+  if (typeof signal === 'function') return bindWithSignal(client, signal);
+
+  const bound = boundBySignal.get(client) ?? new WeakMap<AbortSignal, Client>();
+  boundBySignal.set(client, bound);
+  const cached = bound.get(signal) ?? bindWithSignal(client, () => signal);
+  bound.set(signal, cached);
+  return cached;
+}
+
+function bindWithSignal(client: Client, current: () => AbortSignal): Client {
+  const fetchData: FetchData = (url, init, opt) =>
+    client.fetchData(url, { ...init, signal: combine(init?.signal, current()) }, opt);
+
+  // Cached reads share one request between callers; leaving must not cancel it for the rest
+  const query: Client['query'] = (path, opt) =>
+    client.query(path, { ...opt, signal: combine(opt?.signal, current()) });
+
+  return { ...client, ...bindRequests(client.config, client.cache, fetchData), query };
+}
+
+// Children listen for their parent's abort instead of combining its signal, so a child
+// that resets before its parent does (child effects run first) isn't born aborted
+const childrenOf = new WeakMap<AbortScope, Set<(reason: unknown) => void>>();
+
+/**
+ * A group of requests that can be cancelled together, optionally nested inside a parent
+ * scope. Cancelled requests reject with an `AbortedError` (see `isAborted`), never a
+ * `NetworkError`.
+ */
+export function createAbortScope(client: Client, parent?: AbortScope | AbortSignal): AbortScope {
+  const latestByKey = new Map<string, AbortScope>();
+  const children = new Set<(reason: unknown) => void>();
+  let controller = new AbortController();
+  let unfollow: (() => void) | undefined;
+
+  function follow() {
+    if (parent instanceof AbortSignal) {
+      // A plain signal can't be reset, so once it has aborted so has everything below it
+      if (parent.aborted) return controller.abort(parent.reason);
+      const onAbort = () => scope.abort(parent.reason);
+      parent.addEventListener('abort', onAbort, { once: true });
+      unfollow = () => parent.removeEventListener('abort', onAbort);
+    } else if (parent) {
+      const siblings = childrenOf.get(parent);
+      const onAbort = (reason: unknown) => scope.abort(reason);
+      siblings?.add(onAbort);
+      unfollow = () => siblings?.delete(onAbort);
+    }
+  }
+
+  const scope: AbortScope = {
+    get signal() {
+      return controller.signal;
+    },
+    client: withSignal(client, () => scope.signal),
+    abort(reason) {
+      unfollow?.();
+      unfollow = undefined;
+      controller.abort(reason);
+      [...children].forEach((abortChild) => abortChild(reason));
+    },
+    reset() {
+      if (controller.signal.aborted) controller = new AbortController();
+      if (!unfollow) follow();
+    },
+    latest(key = 'default') {
+      // One child per key, reset rather than replaced, so its client is only bound once
+      const current = latestByKey.get(key) ?? createAbortScope(client, scope);
+      latestByKey.set(key, current);
+      current.abort();
+      current.reset();
+      return current.client;
+    },
+    child() {
+      return createAbortScope(client, scope);
+    },
+  };
+
+  childrenOf.set(scope, children);
+  // A child of an already-aborted scope starts out aborted
+  if (parent && !(parent instanceof AbortSignal) && parent.signal.aborted) {
+    controller.abort(parent.signal.reason);
+  } else {
+    follow();
+  }
+  return scope;
+}
+
+const AbortScopeContext = createContext<AbortScope | undefined>(undefined);
+
+/**
+ * An abort scope tied to the calling component: every request made through
+ * `scope.client` is cancelled when the component unmounts, and `scope.latest()` gives
+ * take-latest semantics for searches and transitions:
+ *
+ *   const scope = useAbortScope();
+ *   useEffect(() => {
+ *     // A newer userId aborts the request for the previous one
+ *     scope.latest('user').getUser(userId).then(setUser, (error) => {
+ *       if (!isAborted(error)) setError(error);
+ *     });
+ *   }, [scope, userId]);
+ *
+ *   const search = (text: string) =>
+ *     startTransition(async () => {
+ *       setResults(await scope.latest('search').listPosts({ q: text }));
+ *     });
+ *
+ * Inside an `AbortScopeProvider`, the scope is a child of the provider's, so leaving a
+ * whole screen cancels everything below it.
+ */
+export function useAbortScope(): AbortScope {
+  const client = useClient();
+  const parent = useContext(AbortScopeContext);
+  const scope = useMemo(() => createAbortScope(client, parent), [client, parent]);
+
+  useEffect(() => {
+    // Strict Mode unmounts and remounts once; the second mount needs a live signal again
+    scope.reset();
+    return () => scope.abort();
+  }, [scope]);
+
+  return scope;
+}
+
+/** Make every `useAbortScope` below a child of one scope that aborts when this unmounts. */
+export function AbortScopeProvider({ children }: { children?: ReactNode }) {
+  const scope = useAbortScope();
+  return createElement(AbortScopeContext.Provider, { value: scope }, children);
+}
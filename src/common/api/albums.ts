@@ -1,33 +1,45 @@
-import type { Album, PageQuery } from './types';
-import type { AlbumsRoute, AlbumRoute, AlbumPhotosRoute } from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { Album, AlbumQuery, Id, PhotoQuery } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreateAlbumBody = Omit<Album, 'id'>;
 
-export async function listAlbums(q?: PageQuery) {
-  return get<AlbumsRoute>('/albums', { q });
-}
-
-export async function getAlbum(id: number) {
-  return get<AlbumRoute>(`/albums/${id}` as AlbumRoute);
-}
-
-export async function createAlbum(body: CreateAlbumBody) {
-  return post<AlbumsRoute>('/albums', body);
-}
-
-export async function updateAlbum(id: number, body: Album) {
-  return put<AlbumRoute>(`/albums/${id}` as AlbumRoute, body);
-}
-
-export async function patchAlbum(id: number, body: Partial<Album>) {
-  return patch<AlbumRoute>(`/albums/${id}` as AlbumRoute, body);
-}
-
-export async function removeAlbum(id: number) {
-  return del<AlbumRoute>(`/albums/${id}` as AlbumRoute);
-}
-
-export async function listPhotosForAlbum(albumId: number, q?: PageQuery) {
-  return get<AlbumPhotosRoute>(`/albums/${albumId}/photos` as AlbumPhotosRoute, { q });
+export function createAlbumsApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listAlbums(q?: AlbumQuery) {
+    return get(routes.albums.path, { q });
+  }
+
+  async function getAlbum(id: Id) {
+    return get(routes.albums.item(id).path);
+  }
+
+  async function createAlbum(body: CreateAlbumBody) {
+    return post(routes.albums.path, body);
+  }
+
+  async function updateAlbum(id: Id, body: Album) {
+    return put(routes.albums.item(id).path, body);
+  }
+
+  async function patchAlbum(id: Id, body: Partial<Album>) {
+    return patch(routes.albums.item(id).path, body);
+  }
+
+  async function removeAlbum(id: Id) {
+    return del(routes.albums.item(id).path);
+  }
+
+  async function listPhotosForAlbum(albumId: Id, q?: PhotoQuery) {
+    return get(routes.albums.item(albumId).photos(), { q });
+  }
+
+  return {
+    listAlbums,
+    getAlbum,
+    createAlbum,
+    updateAlbum,
+    patchAlbum,
+    removeAlbum,
+    listPhotosForAlbum,
+  };
 }
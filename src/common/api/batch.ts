@@ -0,0 +1,135 @@
+import type { FetchInput } from './types';
+import { AbortedError, HttpError } from './errors';
+import type { CollectionRoute, ItemRoute, NestedRoute } from './routes';
+import type { GetResponse, RequestHelpers } from './low-level';
+import type { Priority } from './scheduler';
+import { FOREIGN_KEYS } from './relations';
+
+export type BatchRoute = ItemRoute | NestedRoute;
+
+export type BatchOptions = Pick<FetchInput, 'signal' | 'priority'>;
+
+/** Ids per collection request; keeps the query string well under URL length limits */
+const MAX_BATCH_SIZE = 50;
+
+type Waiter = {
+  path: BatchRoute;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+type Group = {
+  collection: CollectionRoute;
+  /** `id` for item lookups, the foreign key (`albumId`) for nested lists */
+  field: string;
+  /** Items resolve to one record; nested lists to every record that matches */
+  single: boolean;
+  priority?: Priority;
+  waiters: Map<number, Waiter[]>;
+};
+
+type Entity = { id: number } & Record<string, unknown>;
+
+// `/posts/1` → ('/posts', 'id', 1); `/albums/1/photos` → ('/photos', 'albumId', 1)
+function describe(path: BatchRoute) {
+  const [resource, id, child] = path.split('/').filter(Boolean);
+  if (!child) return { collection: `/${resource}`, field: 'id', id: Number(id) };
+  const field = FOREIGN_KEYS[resource] as string | undefined;
+  return field && { collection: `/${child}`, field, id: Number(id) };
+}
+
+/**
+ * Coalesce lookups made in the same tick into one collection query per resource:
+ *
+ *   const [a, b] = await Promise.all([batch('/posts/1'), batch('/posts/2')]);
+ *   // one request: GET /posts?id=1&id=2
+ *
+ *   albums.map((album) => batch(routes.albums.item(album.id).photos()));
+ *   // GET /photos?albumId=1&albumId=2&…, split back out per album
+ *
+ * Duplicate lookups share a result, and an id the server doesn't return rejects with a
+ * 404 `HttpError`. Aborting a caller's `signal` only rejects that caller; the shared
+ * request carries on for the rest.
+ */
+export function createBatcher({ get, url }: Pick<RequestHelpers, 'get' | 'url'>) {
+  const pending = new Map<string, Group>();
+
+  async function run(group: Group, ids: number[]) {
+    // Every collection route resolves to an array of records with numeric ids
+    const response: unknown = await get(group.collection, {
+      q: { [group.field]: ids },
+      priority: group.priority,
+    });
+    const records = response as Entity[];
+
+    for (const id of ids) {
+      const matching = records.filter((record) => record[group.field] === id);
+      for (const waiter of group.waiters.get(id) ?? []) {
+        if (!group.single) waiter.resolve(matching);
+        else if (matching.length > 0) waiter.resolve(matching[0]);
+        else
+          waiter.reject(
+            new HttpError({ status: 404, statusText: 'Not Found', url: url(waiter.path) }),
+          );
+      }
+    }
+  }
+
+  function flush() {
+    const groups = [...pending.values()];
+    pending.clear();
+    for (const group of groups) {
+      const ids = [...group.waiters.keys()];
+      for (let start = 0; start < ids.length; start += MAX_BATCH_SIZE) {
+        const chunk = ids.slice(start, start + MAX_BATCH_SIZE);
+        run(group, chunk).catch((error: unknown) => {
+          for (const id of chunk) {
+            for (const waiter of group.waiters.get(id) ?? []) waiter.reject(error);
+          }
+        });
+      }
+    }
+  }
+
+  function batch<P extends BatchRoute>(path: P, opt?: BatchOptions): Promise<GetResponse<P>> {
+    const { signal, priority } = opt ?? {};
+    if (signal?.aborted) return Promise.reject(new AbortedError({ cause: signal.reason }));
+
+    const described = describe(path);
+    if (!described) return Promise.reject(new Error(`No foreign key is known for ${path}`));
+    const { collection, field, id } = described;
+    const key = `${collection} ${field} ${priority ?? ''}`;
+    let group = pending.get(key);
+    if (!group) {
+      group = {
+        collection: collection as CollectionRoute,
+        field,
+        single: field === 'id',
+        priority,
+        waiters: new Map(),
+      };
+      pending.set(key, group);
+      if (pending.size === 1) queueMicrotask(flush);
+    }
+    const waiters = group.waiters.get(id) ?? [];
+    group.waiters.set(id, waiters);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new AbortedError({ cause: signal?.reason }));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiters.push({
+        path,
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as GetResponse<P>);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  return { batch };
+}
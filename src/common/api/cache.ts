@@ -0,0 +1,367 @@
+import type { AnyRoute } from './routes';
+import type { Query } from './http';
+import { AbortedError } from './errors';
+
+export type QueryState<T = unknown> = {
+  data?: T;
+  error?: unknown;
+  /** When data last arrived from the server; 0 if it never has */
+  updatedAt: number;
+  isFetching: boolean;
+  /** Set by `invalidate`; the next read refetches regardless of stale time */
+  isInvalidated: boolean;
+};
+
+export type QueryCacheOptions = {
+  /** How long data counts as fresh before a read triggers revalidation (ms). Default 0. */
+  staleTime?: number;
+  /** How long an entry with no subscribers is kept before it's dropped (ms). Default 5 minutes. */
+  gcTime?: number;
+};
+
+export type FetchQueryOptions = {
+  staleTime?: number;
+  signal?: AbortSignal;
+};
+
+export type InvalidateMatch = AnyRoute | ((route: AnyRoute, query: Query) => boolean);
+
+/** A promise annotated the way React's `use()` reads it, so settled data never suspends. */
+export type TrackedPromise<T> = Promise<T> & {
+  status?: 'pending' | 'fulfilled' | 'rejected';
+  value?: T;
+  reason?: unknown;
+};
+
+type Entry = {
+  route: AnyRoute;
+  query: Query;
+  state: QueryState;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+  /** The `invalidations` count when `promise` started; older requests can't clear the flag */
+  generation?: number;
+  /** Bumped by `invalidate` so requests already in flight know their data is outdated */
+  invalidations: number;
+  /** Stable promise handed to `use()`; only replaced when the data changes */
+  resource?: TrackedPromise<unknown>;
+  /** When the last request failed, so a rejected `resource` can expire */
+  failedAt?: number;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+};
+
+/** Stable cache key for a route + query tuple, independent of property order. */
+export function queryKey(route: AnyRoute, query?: Query) {
+  const sorted = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([route, Object.fromEntries(sorted)]);
+}
+
+/** The route and query a `queryKey` was built from, e.g. to memoize an inline query by value. */
+export function parseQueryKey<R extends AnyRoute, Q extends Query | undefined>(key: string) {
+  return JSON.parse(key) as [R, Q];
+}
+
+// `/users/1/posts` → { resource: 'posts', isItem: false }, `/posts/1` → { resource: 'posts', isItem: true }
+export function describeRoute(route: string) {
+  const segments = route.split('/').filter(Boolean);
+  const last = segments[segments.length - 1];
+  const isItem = /^-?\d+$/.test(last);
+  return { resource: isItem ? segments[segments.length - 2] : last, isItem };
+}
+
+// The re-render right after a rejection has to see the error (or it would refetch in a
+// loop); a read after this long is a remount and gets a fresh request
+const REJECTION_TTL = 1000;
+
+function fulfilled<T>(value: T): TrackedPromise<T> {
+  const promise: TrackedPromise<T> = Promise.resolve(value);
+  promise.status = 'fulfilled';
+  promise.value = value;
+  return promise;
+}
+
+function track<T>(promise: Promise<T>): TrackedPromise<T> {
+  const tracked: TrackedPromise<T> = promise;
+  tracked.status = 'pending';
+  promise.then(
+    (value) => {
+      tracked.status = 'fulfilled';
+      tracked.value = value;
+    },
+    (reason: unknown) => {
+      tracked.status = 'rejected';
+      tracked.reason = reason;
+    },
+  );
+  return tracked;
+}
+
+// Let one caller walk away without cancelling a request other callers share
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AbortedError({ cause: signal.reason }));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError({ cause: signal.reason }));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function createQueryCache(options: QueryCacheOptions = {}) {
+  const { staleTime: defaultStaleTime = 0, gcTime = 5 * 60 * 1000 } = options;
+  const entries = new Map<string, Entry>();
+
+  function ensure(route: AnyRoute, query: Query) {
+    const key = queryKey(route, query);
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = {
+        route,
+        query,
+        state: { updatedAt: 0, isFetching: false, isInvalidated: false },
+        invalidations: 0,
+        listeners: new Set(),
+      };
+      entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  function update(entry: Entry, next: Partial<QueryState>) {
+    entry.state = { ...entry.state, ...next };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  function scheduleGc(key: string, entry: Entry) {
+    clearTimeout(entry.gcTimer);
+    if (entry.listeners.size > 0 || entry.promise) return;
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise) entries.delete(key);
+    }, gcTime);
+    // Don't keep Node (tests, scripts) alive just to collect garbage
+    if (typeof entry.gcTimer === 'object') entry.gcTimer.unref?.();
+  }
+
+  // A read started while a component renders can't notify anyone yet: React warns about
+  // store updates during render. It defers the request and the `isFetching` change.
+  function run(key: string, entry: Entry, duringRender = false) {
+    // A request that started before an invalidation may return pre-write data; start over
+    if (entry.promise && entry.generation === entry.invalidations) return entry.promise;
+    const { fetcher } = entry;
+    if (!fetcher) return Promise.resolve(entry.state.data);
+
+    clearTimeout(entry.gcTimer);
+    const generation = entry.invalidations;
+    const request = duringRender ? Promise.resolve().then(fetcher) : fetcher();
+    const promise: Promise<unknown> = request.then(
+      (data) => {
+        // Superseded: a newer request owns the entry now
+        if (entry.promise !== promise) return data;
+        entry.promise = undefined;
+        const outdated = entry.invalidations !== generation;
+        // Invalidated mid-flight: keep the data to show, but the next read still refetches
+        if (!outdated) entry.resource = fulfilled(data);
+        update(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: outdated,
+        });
+        scheduleGc(key, entry);
+        return data;
+      },
+      (error: unknown) => {
+        entry.failedAt = Date.now();
+        if (entry.promise !== promise) throw error;
+        entry.promise = undefined;
+        update(entry, { error, isFetching: false });
+        scheduleGc(key, entry);
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    entry.generation = generation;
+    if (duringRender) {
+      entry.state = { ...entry.state, isFetching: true };
+      queueMicrotask(() => entry.listeners.forEach((listener) => listener()));
+    } else {
+      update(entry, { isFetching: true });
+    }
+    return promise;
+  }
+
+  function isStale(entry: Entry, staleTime: number) {
+    const { updatedAt, isInvalidated } = entry.state;
+    return isInvalidated || updatedAt === 0 || Date.now() - updatedAt >= staleTime;
+  }
+
+  /**
+   * Read through the cache. Fresh data resolves immediately, concurrent reads share one
+   * request, and stale data is returned right away while it revalidates in the background.
+   */
+  function fetchQuery<T>(
+    route: AnyRoute,
+    query: Query,
+    fetcher: () => Promise<T>,
+    opt: FetchQueryOptions = {},
+  ): Promise<T> {
+    const key = queryKey(route, query);
+    const entry = ensure(route, query);
+    entry.fetcher = fetcher;
+
+    const hasData = entry.state.updatedAt > 0;
+    if (hasData && !isStale(entry, opt.staleTime ?? defaultStaleTime)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+    if (hasData) {
+      run(key, entry).catch(() => {
+        // Background revalidation failures surface through the entry's error state
+      });
+      return Promise.resolve(entry.state.data as T);
+    }
+    return withAbort(run(key, entry) as Promise<T>, opt.signal);
+  }
+
+  function currentResource(entry: Entry) {
+    if (
+      entry.resource?.status === 'rejected' &&
+      Date.now() - (entry.failedAt ?? 0) >= REJECTION_TTL
+    ) {
+      entry.resource = undefined;
+    }
+    return entry.resource;
+  }
+
+  /**
+   * The entry's stable promise for React's `use()`. It starts a request when there's no
+   * data yet and keeps returning the same promise until new data lands, so a component
+   * that is revalidating in the background keeps rendering instead of suspending again.
+   * A rejected promise is only kept long enough for the suspended reader to see the error.
+   * Safe to call during render: the request starts, and subscribers hear of it, a microtask later.
+   */
+  function readQuery<T>(
+    route: AnyRoute,
+    query: Query,
+    fetcher: () => Promise<T>,
+  ): TrackedPromise<T> {
+    const key = queryKey(route, query);
+    const entry = ensure(route, query);
+    entry.fetcher = fetcher;
+    if (!currentResource(entry)) {
+      entry.resource =
+        entry.state.updatedAt > 0 && !entry.state.isInvalidated
+          ? fulfilled(entry.state.data)
+          : track(run(key, entry, true));
+      // Nobody may ever subscribe to a preloaded entry; don't let the rejection go unhandled
+      entry.resource.catch(() => {});
+    }
+    return entry.resource as TrackedPromise<T>;
+  }
+
+  /** What `readQuery` would return, or undefined when reading would have to start a request. */
+  function peekQuery<T>(route: AnyRoute, query: Query): TrackedPromise<T> | undefined {
+    const entry = entries.get(queryKey(route, query));
+    return entry && (currentResource(entry) as TrackedPromise<T> | undefined);
+  }
+
+  function getState<T>(route: AnyRoute, query?: Query): QueryState<T> | undefined {
+    return entries.get(queryKey(route, query))?.state as QueryState<T> | undefined;
+  }
+
+  function setData<T>(route: AnyRoute, query: Query, updater: T | ((previous?: T) => T)) {
+    const entry = ensure(route, query);
+    const data =
+      typeof updater === 'function'
+        ? (updater as (previous?: T) => T)(entry.state.data as T | undefined)
+        : updater;
+    entry.resource = fulfilled(data);
+    update(entry, { data, error: undefined, updatedAt: Date.now(), isInvalidated: false });
+    scheduleGc(queryKey(route, query), entry);
+  }
+
+  function subscribe(route: AnyRoute, query: Query, listener: () => void) {
+    const key = queryKey(route, query);
+    const entry = ensure(route, query);
+    entry.listeners.add(listener);
+    clearTimeout(entry.gcTimer);
+    return () => {
+      entry.listeners.delete(listener);
+      scheduleGc(key, entry);
+    };
+  }
+
+  function matches(entry: Entry, match: InvalidateMatch) {
+    return typeof match === 'function' ? match(entry.route, entry.query) : entry.route === match;
+  }
+
+  /** Every entry that currently holds data and matches, e.g. all cached lists of a resource. */
+  function findAll<T>(match: InvalidateMatch) {
+    return [...entries.values()]
+      .filter((entry) => entry.state.updatedAt > 0 && matches(entry, match))
+      .map((entry) => ({ route: entry.route, query: entry.query, data: entry.state.data as T }));
+  }
+
+  /** Mark matching entries stale; the ones something is watching refetch right away. */
+  function invalidate(match: InvalidateMatch) {
+    entries.forEach((entry, key) => {
+      if (!matches(entry, match)) return;
+      entry.invalidations += 1;
+      update(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0) {
+        run(key, entry).catch(() => {
+          // Surfaced through the entry's error state
+        });
+      }
+      if (entry.listeners.size === 0 || entry.resource?.status !== 'fulfilled') {
+        // Next reader gets the fresh request instead of the outdated or failed promise
+        entry.resource = undefined;
+      }
+    });
+  }
+
+  /**
+   * Invalidate everything a write to `route` could have changed: the route itself, routes
+   * nested under an item (`/users/1/posts` for `/users/1`), and every list of the same
+   * resource (`/posts`, `/users/1/posts`). Items of a list aren't touched by writing to the list.
+   */
+  function invalidateRoute(route: AnyRoute) {
+    const target = describeRoute(route);
+    invalidate((candidate) => {
+      if (candidate === route) return true;
+      if (target.isItem && candidate.startsWith(`${route}/`)) return true;
+      const other = describeRoute(candidate);
+      return !other.isItem && other.resource === target.resource;
+    });
+  }
+
+  function remove(route: AnyRoute, query?: Query) {
+    const key = queryKey(route, query);
+    clearTimeout(entries.get(key)?.gcTimer);
+    entries.delete(key);
+  }
+
+  function clear() {
+    entries.forEach((entry) => clearTimeout(entry.gcTimer));
+    entries.clear();
+  }
+
+  return {
+    fetchQuery,
+    readQuery,
+    peekQuery,
+    getState,
+    findAll,
+    setData,
+    subscribe,
+    invalidate,
+    invalidateRoute,
+    remove,
+    clear,
+  };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
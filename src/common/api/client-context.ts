@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { Client } from './client';
+import { defaultClient } from './default-client';
+
+/**
+ * Which client the hooks in this package read from. Render `<ClientContext value={client}>`
+ * around a subtree to point it at another instance; everything else gets the default.
+ */
+export const ClientContext = createContext<Client>(defaultClient);
+
+export function useClient(): Client {
+  return useContext(ClientContext);
+}
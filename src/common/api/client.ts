@@ -0,0 +1,104 @@
+import { createFetchData, defaultHttpConfig } from './http';
+import type { FetchData, HttpConfig } from './http';
+import { createQueryCache } from './cache';
+import type { QueryCache, QueryCacheOptions } from './cache';
+import type { Middleware } from './middleware';
+import type { QueueObserver } from './scheduler';
+import { createRequestHelpers } from './low-level';
+import { createOptimisticMutations } from './mutations';
+import { createPagination } from './pagination';
+import { createBatcher } from './batch';
+import { createPostsApi } from './posts';
+import { createCommentsApi } from './comments';
+import { createAlbumsApi } from './albums';
+import { createPhotosApi } from './photos';
+import { createTodosApi } from './todos';
+import { createUsersApi } from './users';
+import { createGeneratedApis } from './generated';
+
+export type ClientOptions = Partial<Omit<HttpConfig, 'transport'>> & {
+  /** 'network', 'mock', or any fetch-compatible function (`createMockFetch()` for isolation) */
+  fetch?: HttpConfig['transport'];
+  /** A cache to share with another client, or options for a new one */
+  cache?: QueryCache | QueryCacheOptions;
+};
+
+function isQueryCache(cache: ClientOptions['cache']): cache is QueryCache {
+  return cache !== undefined && 'fetchQuery' in cache;
+}
+
+/**
+ * An independent API client: its own base URL, transport, middleware, retry policy and
+ * query cache. Everything exported from this package is the default client's.
+ *
+ *   const staging = createClient({ baseUrl: 'https://staging.example.com', fetch: 'network' });
+ *   const isolated = createClient({ fetch: createMockFetch() });
+ *   await isolated.listPosts({ _page: 1 });
+ */
+export function createClient(options: ClientOptions = {}) {
+  const { fetch: transport, cache: cacheOption, ...rest } = options;
+  const config: HttpConfig = {
+    ...defaultHttpConfig(),
+    ...rest,
+    ...(transport && { transport }),
+  };
+  const cache = isQueryCache(cacheOption) ? cacheOption : createQueryCache(cacheOption);
+  const fetchData = createFetchData(config);
+
+  function configure(next: Partial<HttpConfig>) {
+    Object.assign(config, next);
+  }
+
+  /** Append a middleware to this client's pipeline; returns a function that removes it again. */
+  function addMiddleware(middleware: Middleware) {
+    config.middleware = [...config.middleware, middleware];
+    return () => {
+      config.middleware = config.middleware.filter((entry) => entry !== middleware);
+    };
+  }
+
+  /** Watch attempts that wait on the scheduler; returns a function that stops watching. */
+  function observeQueue(observer: QueueObserver) {
+    config.queueObservers = [...config.queueObservers, observer];
+    return () => {
+      config.queueObservers = config.queueObservers.filter((entry) => entry !== observer);
+    };
+  }
+
+  return {
+    config: config as Readonly<HttpConfig>,
+    cache,
+    configure,
+    addMiddleware,
+    observeQueue,
+    ...bindRequests(config, cache, fetchData),
+  };
+}
+
+/**
+ * Everything built on top of a fetcher: the typed verbs, pagination, batching, optimistic
+ * mutations and the resource helpers, generated ones included. `withSignal` rebinds it around a scoped fetcher.
+ */
+export function bindRequests(
+  config: Readonly<HttpConfig>,
+  cache: QueryCache,
+  fetchData: FetchData,
+) {
+  const requests = createRequestHelpers({ config, fetchData, cache });
+  return {
+    fetchData,
+    ...requests,
+    ...createPagination(requests),
+    ...createBatcher(requests),
+    ...createOptimisticMutations(requests, cache),
+    ...createPostsApi(requests),
+    ...createCommentsApi(requests),
+    ...createAlbumsApi(requests),
+    ...createPhotosApi(requests),
+    ...createTodosApi(requests),
+    ...createUsersApi(requests),
+    ...createGeneratedApis(requests),
+  };
+}
+
+export type Client = ReturnType<typeof createClient>;
@@ -1,29 +1,33 @@
-import type { Comment, PageQuery } from './types';
-import type { CommentsRoute, CommentRoute } from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { Comment, CommentQuery, Id } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreateCommentBody = Omit<Comment, 'id'>;
 
-export async function listComments(q?: PageQuery) {
-  return get<CommentsRoute>('/comments', { q });
-}
+export function createCommentsApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listComments(q?: CommentQuery) {
+    return get(routes.comments.path, { q });
+  }
 
-export async function getComment(id: number) {
-  return get<CommentRoute>(`/comments/${id}` as CommentRoute);
-}
+  async function getComment(id: Id) {
+    return get(routes.comments.item(id).path);
+  }
 
-export async function createComment(body: CreateCommentBody) {
-  return post<CommentsRoute>('/comments', body);
-}
+  async function createComment(body: CreateCommentBody) {
+    return post(routes.comments.path, body);
+  }
 
-export async function updateComment(id: number, body: Comment) {
-  return put<CommentRoute>(`/comments/${id}` as CommentRoute, body);
-}
+  async function updateComment(id: Id, body: Comment) {
+    return put(routes.comments.item(id).path, body);
+  }
 
-export async function patchComment(id: number, body: Partial<Comment>) {
-  return patch<CommentRoute>(`/comments/${id}` as CommentRoute, body);
-}
+  async function patchComment(id: Id, body: Partial<Comment>) {
+    return patch(routes.comments.item(id).path, body);
+  }
+
+  async function removeComment(id: Id) {
+    return del(routes.comments.item(id).path);
+  }
 
-export async function removeComment(id: number) {
-  return del<CommentRoute>(`/comments/${id}` as CommentRoute);
+  return { listComments, getComment, createComment, updateComment, patchComment, removeComment };
 }
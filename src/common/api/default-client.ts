@@ -0,0 +1,78 @@
+import { createClient } from './client';
+
+/** The client behind the package-level exports; `VITE_API_MOCK=true` switches it to the mock. */
+export const defaultClient = createClient();
+
+export const {
+  configure: configureHttp,
+  addMiddleware,
+  fetchData,
+  cache: queryCache,
+
+  url,
+  get,
+  query,
+  post,
+  put,
+  patch,
+  del,
+  raw,
+
+  getPage,
+  pages,
+  batch,
+
+  createOptimistic,
+  updateOptimistic,
+  removeOptimistic,
+
+  listPosts,
+  getPost,
+  createPost,
+  updatePost,
+  patchPost,
+  removePost,
+  listCommentsForPost,
+
+  listComments,
+  getComment,
+  createComment,
+  updateComment,
+  patchComment,
+  removeComment,
+
+  listAlbums,
+  getAlbum,
+  createAlbum,
+  updateAlbum,
+  patchAlbum,
+  removeAlbum,
+  listPhotosForAlbum,
+
+  listPhotos,
+  getPhoto,
+  createPhoto,
+  updatePhoto,
+  patchPhoto,
+  removePhoto,
+
+  listTodos,
+  getTodo,
+  createTodo,
+  updateTodo,
+  patchTodo,
+  removeTodo,
+
+  listUsers,
+  getUser,
+  createUser,
+  updateUser,
+  patchUser,
+  removeUser,
+  listAlbumsForUser,
+  listTodosForUser,
+  listPostsForUser,
+} = defaultClient;
+
+// Convenience aliases that feel familiar
+export { del as delete };
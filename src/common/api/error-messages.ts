@@ -0,0 +1,112 @@
+import type { ClientError, ErrorCategory } from './errors';
+import { toClientError } from './errors';
+
+export type MessageContext = {
+  /** What was being loaded or saved, e.g. 'posts'; falls back to a generic noun */
+  resource: string;
+  /** Whole seconds from `Retry-After`, when the server sent one */
+  seconds?: number;
+  status?: number;
+};
+
+type Message = string | ((context: MessageContext) => string);
+
+export type ErrorMessages = {
+  /** Heading for error UI such as `ApiErrorBoundary` */
+  title: string;
+  /** Label for the action that tries the request again */
+  retry: string;
+  /** Stands in for `resource` when the caller didn't name one */
+  fallbackResource: string;
+  categories: Record<ErrorCategory, Message>;
+};
+
+const en: ErrorMessages = {
+  title: 'Something went wrong',
+  retry: 'Try again',
+  fallbackResource: 'the requested data',
+  categories: {
+    'not-found': ({ resource }) => `We couldn't find ${resource}.`,
+    unauthorized: ({ resource }) => `You don't have permission to access ${resource}.`,
+    'rate-limited': ({ seconds }) =>
+      seconds
+        ? `Too many requests. Please try again in ${seconds} ${seconds === 1 ? 'second' : 'seconds'}.`
+        : 'Too many requests. Please wait a moment and try again.',
+    server: 'The server ran into a problem. Please try again shortly.',
+    'bad-request': ({ resource }) => `The request for ${resource} was rejected.`,
+    timeout: ({ resource }) => `Loading ${resource} took too long. Please try again.`,
+    aborted: 'The request was cancelled.',
+    network: "We couldn't reach the server. Check your connection and try again.",
+    parse: 'The server sent a response we could not read.',
+    validation: ({ resource }) => `The data for ${resource} was not in the expected format.`,
+  },
+};
+
+const es: ErrorMessages = {
+  title: 'Algo salió mal',
+  retry: 'Reintentar',
+  fallbackResource: 'los datos solicitados',
+  categories: {
+    'not-found': ({ resource }) => `No encontramos ${resource}.`,
+    unauthorized: ({ resource }) => `No tienes permiso para acceder a ${resource}.`,
+    'rate-limited': ({ seconds }) =>
+      seconds
+        ? `Demasiadas solicitudes. Vuelve a intentarlo en ${seconds} ${seconds === 1 ? 'segundo' : 'segundos'}.`
+        : 'Demasiadas solicitudes. Espera un momento y vuelve a intentarlo.',
+    server: 'El servidor tuvo un problema. Vuelve a intentarlo en breve.',
+    'bad-request': ({ resource }) => `La solicitud de ${resource} fue rechazada.`,
+    timeout: ({ resource }) => `Cargar ${resource} tardó demasiado. Vuelve a intentarlo.`,
+    aborted: 'La solicitud se canceló.',
+    network: 'No pudimos conectar con el servidor. Revisa tu conexión y vuelve a intentarlo.',
+    parse: 'El servidor envió una respuesta que no pudimos leer.',
+    validation: ({ resource }) => `Los datos de ${resource} no tenían el formato esperado.`,
+  },
+};
+
+const catalogs = new Map<string, ErrorMessages>([
+  ['en', en],
+  ['es', es],
+]);
+
+/** Add or replace the messages for a locale ('de', 'pt-BR', …). */
+export function registerErrorMessages(locale: string, messages: ErrorMessages) {
+  catalogs.set(locale.toLowerCase(), messages);
+}
+
+function defaultLocale() {
+  return typeof navigator === 'undefined' ? 'en' : navigator.language;
+}
+
+/** The catalog for `locale`: an exact match, then its language ('es-MX' → 'es'), then English. */
+export function errorMessagesFor(locale: string = defaultLocale()): ErrorMessages {
+  const normalized = locale.toLowerCase();
+  return catalogs.get(normalized) ?? catalogs.get(normalized.split('-')[0]) ?? en;
+}
+
+export type FormatErrorOptions = {
+  /** BCP 47 tag; defaults to the browser's language */
+  locale?: string;
+  resource?: string;
+};
+
+/**
+ * A sentence for end users describing what went wrong, chosen by the error's category:
+ *
+ *   formatClientError(error, { resource: 'posts' }) // "We couldn't find posts."
+ *
+ * Anything that isn't a `ClientError` yet is normalized first, so it's safe in a catch block.
+ */
+export function formatClientError(error: unknown, options: FormatErrorOptions = {}) {
+  const clientError: ClientError = toClientError(error);
+  const catalog = errorMessagesFor(options.locale);
+  const message = catalog.categories[clientError.category];
+  const context: MessageContext = {
+    resource: options.resource ?? catalog.fallbackResource,
+    seconds:
+      clientError.kind === 'http' && clientError.retryAfter !== undefined
+        ? Math.ceil(clientError.retryAfter / 1000)
+        : undefined,
+    status: clientError.kind === 'http' ? clientError.status : undefined,
+  };
+  return typeof message === 'function' ? message(context) : message;
+}
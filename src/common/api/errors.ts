@@ -0,0 +1,187 @@
+/**
+ * What went wrong, in terms a UI can act on. HTTP statuses map to the first five;
+ * the rest come from how the request failed.
+ */
+export type ErrorCategory =
+  | 'not-found'
+  | 'unauthorized'
+  | 'rate-limited'
+  | 'server'
+  | 'bad-request'
+  | 'timeout'
+  | 'aborted'
+  | 'network'
+  | 'parse'
+  | 'validation';
+
+type Init<T> = Omit<T, 'kind' | 'category' | 'name' | 'message' | 'stack' | 'cause'> & {
+  message?: string;
+  cause?: unknown;
+};
+
+/**
+ * Base class for everything the API layer throws. Subclasses keep the `kind`
+ * discriminant, so `switch (error.kind)` still narrows to the right fields.
+ */
+export abstract class ApiError extends Error {
+  abstract readonly kind: 'http' | 'network' | 'aborted' | 'parse' | 'validation';
+  /** How many attempts were made before giving up */
+  attempts?: number;
+
+  abstract get category(): ErrorCategory;
+}
+
+export class HttpError extends ApiError {
+  readonly kind = 'http';
+  status: number;
+  statusText: string;
+  url: string;
+  bodyText?: string;
+  /** Server-requested wait from the `Retry-After` header, in ms */
+  retryAfter?: number;
+
+  constructor({ message, cause, ...init }: Init<HttpError>) {
+    super(message ?? `${init.status} ${init.statusText}`.trim() + ` (${init.url})`, { cause });
+    this.name = 'HttpError';
+    this.status = init.status;
+    this.statusText = init.statusText;
+    this.url = init.url;
+    this.bodyText = init.bodyText;
+    this.retryAfter = init.retryAfter;
+    this.attempts = init.attempts;
+  }
+
+  get category(): ErrorCategory {
+    if (this.status === 404) return 'not-found';
+    if (this.status === 401 || this.status === 403) return 'unauthorized';
+    if (this.status === 429) return 'rate-limited';
+    if (this.status === 408) return 'timeout';
+    if (this.status >= 500) return 'server';
+    return 'bad-request';
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly kind = 'network';
+  /** Set when a configured timeout cut the request short rather than the connection */
+  reason?: 'timeout';
+
+  constructor({ message, cause, ...init }: Init<NetworkError>) {
+    super(message ?? 'Network request failed', { cause });
+    this.name = 'NetworkError';
+    this.reason = init.reason;
+    this.attempts = init.attempts;
+  }
+
+  get category(): ErrorCategory {
+    return this.reason ?? 'network';
+  }
+}
+
+/**
+ * The caller gave up on the request: its signal was aborted, an `AbortScope` unmounted,
+ * or a newer `latest()` call superseded it. Usually nothing to show the user.
+ */
+export class AbortedError extends ApiError {
+  readonly kind = 'aborted';
+
+  constructor({ message, cause, ...init }: Init<AbortedError>) {
+    super(message ?? 'Request was aborted', { cause });
+    this.name = 'AbortedError';
+    this.attempts = init.attempts;
+  }
+
+  get category(): ErrorCategory {
+    return 'aborted';
+  }
+}
+
+export class ParseError extends ApiError {
+  readonly kind = 'parse';
+
+  constructor({ message, cause, ...init }: Init<ParseError>) {
+    super(message ?? 'Response body was not valid JSON', { cause });
+    this.name = 'ParseError';
+    this.attempts = init.attempts;
+  }
+
+  get category(): ErrorCategory {
+    return 'parse';
+  }
+}
+
+export type ValidationIssue = {
+  path: Array<string | number>;
+  message: string;
+};
+
+export class ValidationError extends ApiError {
+  readonly kind = 'validation';
+  /** Which part of the exchange failed its schema */
+  source: 'query' | 'body' | 'response';
+  url: string;
+  issues: ValidationIssue[];
+
+  constructor({ message, cause, ...init }: Init<ValidationError>) {
+    super(message ?? `${init.source} did not match the expected schema`, { cause });
+    this.name = 'ValidationError';
+    this.source = init.source;
+    this.url = init.url;
+    this.issues = init.issues;
+    this.attempts = init.attempts;
+  }
+
+  get category(): ErrorCategory {
+    return 'validation';
+  }
+}
+
+export type ClientError = HttpError | NetworkError | AbortedError | ParseError | ValidationError;
+
+// Convenience guard for consumer error handling
+export function isClientError(e: unknown): e is ClientError {
+  return e instanceof ApiError;
+}
+
+/** True for requests the caller cancelled, which most error UI should ignore */
+export function isAborted(e: unknown): e is AbortedError {
+  return e instanceof AbortedError;
+}
+
+function isAbort(e: unknown, name: 'AbortError' | 'TimeoutError') {
+  return !!e && typeof e === 'object' && 'name' in e && e.name === name;
+}
+
+/**
+ * Normalize anything thrown during a request: class instances pass through, plain
+ * `{ kind, … }` objects (from middleware or older code) are upgraded, abort `DOMException`s
+ * become an `AbortedError`, timeouts a `NetworkError` with a `reason`, and the rest a plain
+ * `NetworkError`.
+ */
+export function toClientError(e: unknown): ClientError {
+  if (isClientError(e)) return e;
+  if (isAbort(e, 'TimeoutError')) {
+    return new NetworkError({ message: 'Request timed out', reason: 'timeout', cause: e });
+  }
+  if (isAbort(e, 'AbortError')) return new AbortedError({ cause: e });
+
+  if (e && typeof e === 'object' && 'kind' in e) {
+    const plain = e as Record<string, unknown> & { kind: unknown; message?: string };
+    switch (plain.kind) {
+      case 'http':
+        return new HttpError(plain as unknown as Init<HttpError>);
+      case 'parse':
+        return new ParseError(plain as Init<ParseError>);
+      case 'validation':
+        return new ValidationError(plain as unknown as Init<ValidationError>);
+      case 'network':
+        return new NetworkError(plain as Init<NetworkError>);
+      case 'aborted':
+        return new AbortedError(plain as Init<AbortedError>);
+    }
+  }
+  return new NetworkError({
+    message: e instanceof Error ? e.message : String(e),
+    cause: e,
+  });
+}
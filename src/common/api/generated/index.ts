@@ -0,0 +1,23 @@
+// Generated by `bun run generate:api`. Edit the description and rerun instead.
+
+import type { RequestHelpers } from '../low-level';
+
+export type GeneratedCollectionRoute = never;
+export type GeneratedItemRoute = never;
+export type GeneratedNestedRoute = never;
+
+export type GeneratedGetRouteMap = never;
+export type GeneratedPostRouteMap = never;
+export type GeneratedPutRouteMap = never;
+export type GeneratedPatchRouteMap = never;
+
+export const generatedRouteSchemas = {};
+
+export type GeneratedRoutePattern = keyof typeof generatedRouteSchemas;
+
+// The field each parent's nested lists filter by: '/users/1/tags' → 'userId'
+export const generatedForeignKeys: Record<string, string> = {};
+
+export function createGeneratedApis(_requests: RequestHelpers) {
+  return {};
+}
@@ -0,0 +1,43 @@
+/**
+ * Regenerate `src/common/api/generated` from a JSON file holding either an OpenAPI 3.x
+ * document or resource descriptions (`[...]` or `{ "resources": [...] }`):
+ *
+ *   bun run generate:api api/resources.json
+ *
+ * With no file, the generated directory is reset to its empty state. Files for resources
+ * that are no longer described are removed.
+ */
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { format, resolveConfig } from 'prettier';
+import { generateClient } from './index';
+import type { GeneratorInput } from './index';
+
+const OUTPUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'generated');
+
+async function main([source]: string[]) {
+  const input: GeneratorInput = source
+    ? (JSON.parse(await readFile(resolve(source), 'utf8')) as GeneratorInput)
+    : [];
+  const files = generateClient(input);
+
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  const keep = new Set(files.map((file) => file.path));
+  for (const stale of await readdir(OUTPUT_DIR)) {
+    if (stale.endsWith('.ts') && !keep.has(stale)) await rm(join(OUTPUT_DIR, stale));
+  }
+
+  for (const file of files) {
+    const target = join(OUTPUT_DIR, file.path);
+    const options = await resolveConfig(target);
+    await writeFile(target, await format(file.contents, { ...options, filepath: target }));
+  }
+
+  console.log(`Generated ${files.length - 1} resource(s) into ${OUTPUT_DIR}`);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+
+export type ScalarType = 'string' | 'number' | 'boolean' | 'id';
+
+export type FieldType =
+  | ScalarType
+  | { enum: readonly string[] }
+  | { array: FieldType }
+  | { object: Record<string, Field> };
+
+export type Field = FieldType | { type: FieldType; optional?: boolean; nullable?: boolean };
+
+/**
+ * One REST resource in json-server style: `/name`, `/name/:id`, plus `/parent/:id/name`
+ * for every parent it belongs to.
+ *
+ *   {
+ *     name: 'tags',
+ *     fields: { id: 'id', label: 'string', color: { type: 'string', nullable: true } },
+ *     parents: ['users'],
+ *   }
+ *
+ * generates `Tag`, `tagSchema`, `TagsRoute`/`TagRoute`/`UserTagsRoute`, and
+ * `listTags`, `getTag`, `createTag`, `updateTag`, `patchTag`, `removeTag`, `listTagsForUser`.
+ */
+export type ResourceDescription = {
+  /** Plural route segment, e.g. 'tags' or 'blog-posts' */
+  name: string;
+  /** Defaults to `name` without its trailing 's' */
+  singular?: string;
+  /** `id` is added as an `id` field when missing */
+  fields: Record<string, Field>;
+  /**
+   * Resources this one belongs to. Each adds a `<parent>Id` field (unless declared) and a
+   * nested list route, e.g. `/users/:id/tags` with `listTagsForUser`.
+   */
+  parents?: readonly string[];
+};
+
+const scalarSchema = z.enum(['string', 'number', 'boolean', 'id']);
+
+const fieldTypeSchema: z.ZodType<FieldType> = z.lazy(() =>
+  z.union([
+    scalarSchema,
+    z.object({ enum: z.array(z.string()).min(1) }),
+    z.object({ array: fieldTypeSchema }),
+    z.object({ object: z.record(z.string(), fieldSchema) }),
+  ]),
+);
+
+const fieldSchema: z.ZodType<Field> = z.lazy(() =>
+  z.union([
+    fieldTypeSchema,
+    z.object({
+      type: fieldTypeSchema,
+      optional: z.boolean().optional(),
+      nullable: z.boolean().optional(),
+    }),
+  ]),
+);
+
+const identifier = z.string().regex(/^[a-z][a-z0-9]*(-[a-z0-9]+)*$/, 'Use lowercase kebab-case');
+
+export const resourceDescriptionSchema = z.object({
+  name: identifier,
+  singular: identifier.optional(),
+  fields: z.record(z.string().regex(/^[A-Za-z_$][\w$]*$/), fieldSchema),
+  parents: z.array(identifier).optional(),
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                   Naming                                   */
+/* -------------------------------------------------------------------------- */
+
+export function singularOf(resource: Pick<ResourceDescription, 'name' | 'singular'>) {
+  return resource.singular ?? resource.name.replace(/s$/, '');
+}
+
+/** 'blog-posts' → 'BlogPosts' */
+export function pascalCase(name: string) {
+  return name.replace(/(^|-)([a-z0-9])/g, (_, __, letter: string) => letter.toUpperCase());
+}
+
+/** 'blog-posts' → 'blogPosts' */
+export function camelCase(name: string) {
+  const pascal = pascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/** The field that points at a parent: 'users' → 'userId', 'categories' → 'categoryId' */
+export function foreignKeyOf(parent: Pick<ResourceDescription, 'name' | 'singular'>) {
+  return `${camelCase(singularOf(parent))}Id`;
+}
+
+/** A parent's description among `resources`; built-in parents are known by name alone */
+export function parentOf(
+  name: string,
+  resources: readonly ResourceDescription[],
+): Pick<ResourceDescription, 'name' | 'singular'> {
+  return resources.find((resource) => resource.name === name) ?? { name };
+}
@@ -0,0 +1,270 @@
+import type { Field, FieldType, ResourceDescription } from './description';
+import { camelCase, foreignKeyOf, parentOf, pascalCase, singularOf } from './description';
+
+export type GeneratedFile = { path: string; contents: string };
+
+const HEADER = '// Generated by `bun run generate:api`. Edit the description and rerun instead.';
+
+function unwrap(field: Field): { type: FieldType; optional: boolean; nullable: boolean } {
+  return typeof field === 'object' && 'type' in field
+    ? { type: field.type, optional: field.optional ?? false, nullable: field.nullable ?? false }
+    : { type: field, optional: false, nullable: false };
+}
+
+function tsType(type: FieldType): string {
+  if (type === 'id') return 'Id';
+  if (typeof type === 'string') return type;
+  if ('enum' in type) return type.enum.map((value) => JSON.stringify(value)).join(' | ');
+  if ('array' in type) {
+    const element = tsType(type.array);
+    return typeof type.array === 'object' && 'enum' in type.array
+      ? `Array<${element}>`
+      : `${element}[]`;
+  }
+  return `{ ${tsFields(type.object)} }`;
+}
+
+function tsFields(fields: Record<string, Field>) {
+  return Object.entries(fields)
+    .map(([key, field]) => {
+      const { type, optional, nullable } = unwrap(field);
+      return `${key}${optional ? '?' : ''}: ${tsType(type)}${nullable ? ' | null' : ''};`;
+    })
+    .join(' ');
+}
+
+function zodType(type: FieldType): string {
+  if (type === 'id') return 'idSchema';
+  if (typeof type === 'string') return `z.${type}()`;
+  if ('enum' in type) return `z.enum(${JSON.stringify(type.enum)})`;
+  if ('array' in type) return `z.array(${zodType(type.array)})`;
+  return `z.object({ ${zodFields(type.object)} })`;
+}
+
+function zodFields(fields: Record<string, Field>) {
+  return Object.entries(fields)
+    .map(([key, field]) => {
+      const { type, optional, nullable } = unwrap(field);
+      return `${key}: ${zodType(type)}${nullable ? '.nullable()' : ''}${optional ? '.optional()' : ''},`;
+    })
+    .join(' ');
+}
+
+/**
+ * Names shared by a resource's file and the index that re-exports it. `resources` is the
+ * whole set being generated, where parents' singular names are looked up.
+ */
+export function namesFor(resource: ResourceDescription, resources: readonly ResourceDescription[]) {
+  const singular = singularOf(resource);
+  const Item = pascalCase(singular);
+  const Items = pascalCase(resource.name);
+  return {
+    file: resource.name,
+    Item,
+    Items,
+    item: camelCase(singular),
+    collectionRoute: `${Items}Route`,
+    itemRoute: `${Item}Route`,
+    nestedRoute: (parent: string) =>
+      `${pascalCase(singularOf(parentOf(parent, resources)))}${Items}Route`,
+  };
+}
+
+/** The description with `id` and each parent's foreign key filled in, `id` first */
+export function withImpliedFields(
+  resource: ResourceDescription,
+  resources: readonly ResourceDescription[],
+): ResourceDescription {
+  const fields: Record<string, Field> = { id: 'id' };
+  for (const parent of resource.parents ?? []) {
+    fields[foreignKeyOf(parentOf(parent, resources))] = 'id';
+  }
+  return { ...resource, fields: { ...fields, ...resource.fields } };
+}
+
+/**
+ * One resource's module: routes, types, zod schema, route-map entries and the request helpers.
+ * Pass every resource being generated so parents described there get their own `singular`.
+ */
+export function emitResource(
+  description: ResourceDescription,
+  resources: readonly ResourceDescription[] = [],
+): GeneratedFile {
+  const resource = withImpliedFields(description, resources);
+  const names = namesFor(resource, resources);
+  const { Item, Items, item, collectionRoute, itemRoute } = names;
+  const parents = resource.parents ?? [];
+  const path = `/${resource.name}`;
+
+  const nestedRoutes = parents.map((parent) => ({
+    parent,
+    route: names.nestedRoute(parent),
+    Parent: pascalCase(singularOf(parentOf(parent, resources))),
+    key: foreignKeyOf(parentOf(parent, resources)),
+  }));
+
+  // Resources without parents have no nested routes, so no `nestedSchemas` either
+  const schemaHelpers = ['collectionSchemas', 'idSchema', 'memberSchemas'];
+  if (parents.length > 0) schemaHelpers.push('nestedSchemas');
+
+  const lines = [
+    HEADER,
+    '',
+    "import { z } from 'zod';",
+    "import type { Id, ResourceQuery } from '../types';",
+    "import type { RequestHelpers } from '../low-level';",
+    `import { ${schemaHelpers.join(', ')} } from '../schemas';`,
+    '',
+    `export type ${collectionRoute} = '${path}';`,
+    `export type ${itemRoute} = \`${path}/\${number}\`;`,
+    ...nestedRoutes.map(
+      ({ parent, route }) => `export type ${route} = \`/${parent}/\${number}${path}\`;`,
+    ),
+    '',
+    `export type ${Item} = { ${tsFields(resource.fields)} };`,
+    `export type ${Item}Query = ResourceQuery<${Item}>;`,
+    `export type Create${Item}Body = Omit<${Item}, 'id'>;`,
+    '',
+    `export const ${item}Schema = z.object({ ${zodFields(resource.fields)} });`,
+    '',
+    `export const ${item}Routes = {`,
+    `  path: '${path}',`,
+    `  item: (id: Id): ${itemRoute} => \`${path}/\${id}\`,`,
+    ...nestedRoutes.map(
+      ({ parent, route, Parent }) =>
+        `  for${Parent}: (id: Id): ${route} => \`/${parent}/\${id}${path}\`,`,
+    ),
+    '} as const;',
+    '',
+    `// Entries for the route maps in low-level.ts`,
+    `export type ${Item}GetRoutes =`,
+    `  | { route: ${collectionRoute}; res: ${Item}[] }`,
+    `  | { route: ${itemRoute}; res: ${Item} }`,
+    ...nestedRoutes.map(({ route }) => `  | { route: ${route}; res: ${Item}[] }`),
+    ';',
+    `export type ${Item}PostRoutes = { route: ${collectionRoute}; body: Create${Item}Body; res: ${Item} };`,
+    `export type ${Item}PutRoutes = { route: ${itemRoute}; body: ${Item}; res: ${Item} };`,
+    `export type ${Item}PatchRoutes = { route: ${itemRoute}; body: Partial<${Item}>; res: ${Item} };`,
+    '',
+    `export const ${item}RouteSchemas = {`,
+    `  '${path}': collectionSchemas(${item}Schema),`,
+    `  '${path}/:id': memberSchemas(${item}Schema),`,
+    ...nestedRoutes.map(({ parent }) => `  '/${parent}/:id${path}': nestedSchemas(${item}Schema),`),
+    '};',
+    '',
+    `export function create${Items}Api({ get, post, put, patch, del }: RequestHelpers) {`,
+    `  async function list${Items}(q?: ${Item}Query) {`,
+    `    return get(${item}Routes.path, { q });`,
+    '  }',
+    '',
+    ...nestedRoutes.flatMap(({ Parent, key }) => [
+      `  async function list${Items}For${Parent}(${key}: Id, q?: ${Item}Query) {`,
+      `    return get(${item}Routes.for${Parent}(${key}), { q });`,
+      '  }',
+      '',
+    ]),
+    `  async function get${Item}(id: Id) {`,
+    `    return get(${item}Routes.item(id));`,
+    '  }',
+    '',
+    `  async function create${Item}(body: Create${Item}Body) {`,
+    `    return post(${item}Routes.path, body);`,
+    '  }',
+    '',
+    `  async function update${Item}(id: Id, body: ${Item}) {`,
+    `    return put(${item}Routes.item(id), body);`,
+    '  }',
+    '',
+    `  async function patch${Item}(id: Id, body: Partial<${Item}>) {`,
+    `    return patch(${item}Routes.item(id), body);`,
+    '  }',
+    '',
+    `  async function remove${Item}(id: Id) {`,
+    `    return del(${item}Routes.item(id));`,
+    '  }',
+    '',
+    '  return {',
+    `    list${Items},`,
+    ...nestedRoutes.map(({ Parent }) => `    list${Items}For${Parent},`),
+    `    get${Item},`,
+    `    create${Item},`,
+    `    update${Item},`,
+    `    patch${Item},`,
+    `    remove${Item},`,
+    '  };',
+    '}',
+    '',
+  ];
+
+  return { path: `${names.file}.ts`, contents: lines.join('\n') };
+}
+
+function union(members: string[]) {
+  return members.length > 0 ? members.join(' | ') : 'never';
+}
+
+/**
+ * The package's entry point into generated code. With no resources it still exports every
+ * name, as `never` types and empty objects, so the core compiles before anything is generated.
+ */
+export function emitIndex(descriptions: readonly ResourceDescription[]): GeneratedFile {
+  const resources = descriptions.map((resource) => {
+    const names = namesFor(resource, descriptions);
+    return { names, nested: (resource.parents ?? []).map(names.nestedRoute) };
+  });
+
+  const lines = [
+    HEADER,
+    '',
+    "import type { RequestHelpers } from '../low-level';",
+    ...resources.map(
+      ({ names }) =>
+        `import { create${names.Items}Api, ${names.item}RouteSchemas } from './${names.file}';`,
+    ),
+    ...resources.map(
+      ({ names, nested }) =>
+        `import type { ${[
+          names.collectionRoute,
+          names.itemRoute,
+          ...nested,
+          `${names.Item}GetRoutes`,
+          `${names.Item}PostRoutes`,
+          `${names.Item}PutRoutes`,
+          `${names.Item}PatchRoutes`,
+        ].join(', ')} } from './${names.file}';`,
+    ),
+    '',
+    ...resources.map(({ names }) => `export * from './${names.file}';`),
+    ...(resources.length > 0 ? [''] : []),
+    `export type GeneratedCollectionRoute = ${union(resources.map(({ names }) => names.collectionRoute))};`,
+    `export type GeneratedItemRoute = ${union(resources.map(({ names }) => names.itemRoute))};`,
+    `export type GeneratedNestedRoute = ${union(resources.flatMap(({ nested }) => nested))};`,
+    '',
+    ...(['Get', 'Post', 'Put', 'Patch'] as const).map(
+      (verb) =>
+        `export type Generated${verb}RouteMap = ${union(resources.map(({ names }) => `${names.Item}${verb}Routes`))};`,
+    ),
+    '',
+    `export const generatedRouteSchemas = { ${resources
+      .map(({ names }) => `...${names.item}RouteSchemas`)
+      .join(', ')} };`,
+    '',
+    'export type GeneratedRoutePattern = keyof typeof generatedRouteSchemas;',
+    '',
+    "// The field each parent's nested lists filter by: '/users/1/tags' → 'userId'",
+    `export const generatedForeignKeys: Record<string, string> = { ${[
+      ...new Set(descriptions.flatMap((resource) => resource.parents ?? [])),
+    ]
+      .map((parent) => `'${parent}': '${foreignKeyOf(parentOf(parent, descriptions))}'`)
+      .join(', ')} };`,
+    '',
+    resources.length > 0
+      ? 'export function createGeneratedApis(requests: RequestHelpers) {'
+      : 'export function createGeneratedApis(_requests: RequestHelpers) {',
+    `  return { ${resources.map(({ names }) => `...create${names.Items}Api(requests)`).join(', ')} };`,
+    '}',
+    '',
+  ];
+
+  return { path: 'index.ts', contents: lines.join('\n') };
+}
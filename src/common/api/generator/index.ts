@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { ResourceDescription } from './description';
+import { foreignKeyOf, parentOf, resourceDescriptionSchema } from './description';
+import { emitIndex, emitResource } from './emit';
+import type { GeneratedFile } from './emit';
+import { fromOpenApi } from './openapi';
+import type { OpenApiDocument } from './openapi';
+
+export type { Field, FieldType, ResourceDescription, ScalarType } from './description';
+export type { GeneratedFile } from './emit';
+export type { JsonSchema, OpenApiDocument } from './openapi';
+export { emitIndex, emitResource, fromOpenApi };
+
+/** Resources the client already ships; generated ones can nest under them but not replace them */
+const BUILT_IN = ['posts', 'comments', 'albums', 'photos', 'todos', 'users'];
+
+export type GeneratorInput =
+  | OpenApiDocument
+  | readonly ResourceDescription[]
+  | { resources: readonly ResourceDescription[] };
+
+function isOpenApi(input: GeneratorInput): input is OpenApiDocument {
+  return 'openapi' in input;
+}
+
+function descriptionsOf(input: GeneratorInput): readonly ResourceDescription[] {
+  if (isOpenApi(input)) return fromOpenApi(input);
+  return 'resources' in input ? input.resources : input;
+}
+
+function check(resources: readonly ResourceDescription[]) {
+  const result = z.array(resourceDescriptionSchema).safeParse(resources);
+  if (!result.success) {
+    throw new Error(`Invalid resource description:\n${z.prettifyError(result.error)}`);
+  }
+
+  const names = resources.map((resource) => resource.name);
+  for (const resource of resources) {
+    if (BUILT_IN.includes(resource.name)) {
+      throw new Error(`"${resource.name}" is a built-in resource and can't be generated`);
+    }
+    if (names.indexOf(resource.name) !== names.lastIndexOf(resource.name)) {
+      throw new Error(`"${resource.name}" is described more than once`);
+    }
+    for (const parent of resource.parents ?? []) {
+      if (!BUILT_IN.includes(parent) && !names.includes(parent)) {
+        throw new Error(`"${resource.name}" belongs to unknown resource "${parent}"`);
+      }
+      const key = foreignKeyOf(parentOf(parent, resources));
+      const declared = resource.fields[key];
+      if (declared !== undefined && declared !== 'id') {
+        throw new Error(`"${resource.name}.${key}" points at "${parent}" and must be an 'id'`);
+      }
+    }
+  }
+}
+
+/**
+ * Every file in `src/common/api/generated` for a set of resources, from either resource
+ * descriptions or an OpenAPI document. Each resource gets its route literal types, item
+ * type, zod schema, route-map entries and `list/get/create/update/patch/remove` helpers;
+ * the index wires them into the client's routes, validation and `createClient`.
+ *
+ * Throws when a description is malformed, reuses a built-in resource name or belongs to a
+ * parent that doesn't exist.
+ */
+export function generateClient(input: GeneratorInput): GeneratedFile[] {
+  const resources = descriptionsOf(input);
+  check(resources);
+  return [...resources.map((resource) => emitResource(resource, resources)), emitIndex(resources)];
+}
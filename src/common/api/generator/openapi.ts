@@ -0,0 +1,136 @@
+import type { Field, FieldType, ResourceDescription } from './description';
+import { singularOf } from './description';
+
+/** The parts of a JSON Schema (OpenAPI 3.x flavour) the generator understands */
+export type JsonSchema = {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  nullable?: boolean;
+};
+
+type Operation = {
+  responses?: Record<string, { content?: Record<string, { schema?: JsonSchema }> }>;
+};
+
+/** The parts of an OpenAPI 3.x document the generator understands */
+export type OpenApiDocument = {
+  openapi: string;
+  paths: Record<string, { get?: Operation } & Record<string, unknown>>;
+  components?: { schemas?: Record<string, JsonSchema> };
+};
+
+const COLLECTION = /^\/([a-z][a-z0-9-]*)$/;
+const ITEM = /^\/([a-z][a-z0-9-]*)\/\{[^}]+\}$/;
+const NESTED = /^\/([a-z][a-z0-9-]*)\/\{[^}]+\}\/([a-z][a-z0-9-]*)$/;
+
+/** 'BlogPost' → 'blog-post' */
+function kebabCase(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase();
+}
+
+function resolve(document: OpenApiDocument, schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace('#/components/schemas/', '');
+  const target = document.components?.schemas?.[name];
+  if (!target) throw new Error(`Unresolved reference ${schema.$ref}`);
+  return resolve(document, target);
+}
+
+function responseSchema(operation: Operation | undefined) {
+  const responses = operation?.responses ?? {};
+  const success = responses['200'] ?? responses['201'] ?? responses.default;
+  return success?.content?.['application/json']?.schema;
+}
+
+// OpenAPI 3.0 says `nullable: true`, 3.1 says `type: ['string', 'null']`
+function isNullable(schema: JsonSchema) {
+  return (
+    schema.nullable === true ||
+    (Array.isArray(schema.type) && schema.type.includes('null')) ||
+    (schema.enum?.includes(null) ?? false)
+  );
+}
+
+function toFieldType(document: OpenApiDocument, key: string, raw: JsonSchema): FieldType {
+  const schema = resolve(document, raw);
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+
+  if (schema.enum) {
+    return { enum: schema.enum.filter((value) => value !== null).map(String) };
+  }
+  switch (type) {
+    case 'integer':
+      // json-server ids and foreign keys are integers named `id`/`<parent>Id`
+      return key === 'id' || /[a-z]Id$/.test(key) ? 'id' : 'number';
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return type;
+    case 'array':
+      return { array: toFieldType(document, key, schema.items ?? {}) };
+    case 'object':
+      return { object: toFields(document, schema) };
+    default:
+      throw new Error(`Field "${key}" has an unsupported type (${String(type)})`);
+  }
+}
+
+function toFields(document: OpenApiDocument, schema: JsonSchema): Record<string, Field> {
+  const required = new Set(schema.required ?? []);
+  const fields: Record<string, Field> = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const type = toFieldType(document, key, property);
+    const optional = !required.has(key);
+    const nullable = isNullable(resolve(document, property));
+    fields[key] =
+      optional || nullable
+        ? { type, ...(optional && { optional }), ...(nullable && { nullable }) }
+        : type;
+  }
+  return fields;
+}
+
+/**
+ * Resource descriptions for every json-server style resource in an OpenAPI document:
+ * `/tags` plus `/tags/{id}` make a resource, its fields come from the item response
+ * (or the list's items), and `/users/{id}/tags` adds `users` as a parent.
+ */
+export function fromOpenApi(document: OpenApiDocument): ResourceDescription[] {
+  const paths = Object.keys(document.paths);
+  const resources: ResourceDescription[] = [];
+
+  for (const path of paths) {
+    const name = COLLECTION.exec(path)?.[1];
+    if (!name) continue;
+    const itemPath = paths.find((candidate) => ITEM.exec(candidate)?.[1] === name);
+    if (!itemPath) continue;
+
+    const itemSchema = responseSchema(document.paths[itemPath].get);
+    const listSchema = responseSchema(document.paths[path].get);
+    const raw = itemSchema ?? (listSchema && resolve(document, listSchema).items);
+    if (!raw) throw new Error(`${itemPath} has no JSON response to take ${name}'s fields from`);
+
+    const reference = raw.$ref?.replace('#/components/schemas/', '');
+    const singular = reference ? kebabCase(reference) : undefined;
+    const parents = paths.flatMap((candidate) => {
+      const match = NESTED.exec(candidate);
+      return match && match[2] === name ? [match[1]] : [];
+    });
+
+    resources.push({
+      name,
+      ...(singular && singular !== singularOf({ name }) && { singular }),
+      fields: toFields(document, resolve(document, raw)),
+      ...(parents.length > 0 && { parents }),
+    });
+  }
+
+  return resources;
+}
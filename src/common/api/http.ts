@@ -1,36 +1,192 @@
 import qs from 'qs';
-import type { ClientError, HttpError, ParseError } from './types';
+import { AbortedError, HttpError, NetworkError, ParseError, toClientError } from './types';
+import type { ClientError } from './types';
+import { mockFetch } from './mock';
+import { resolveConditions, sampleDelay, simulateFailure, sleep } from './network-conditions';
+import type { NetworkConditions } from './network-conditions';
+import { backoffDelay, NO_RETRY, parseRetryAfter, shouldRetry } from './retry';
+import type { RetryPolicy } from './retry';
+import { compose } from './middleware';
+import type { Middleware, RequestContext } from './middleware';
+import { originOf } from './scheduler';
+import type { Priority, QueueObserver, Scheduler } from './scheduler';
 
 export const BASE_URL = 'https://jsonplaceholder.typicode.com';
 
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type HttpConfig = {
+  /** Origin (plus optional path prefix) every route is resolved against */
+  baseUrl: string;
+  /** 'network' hits `baseUrl`, 'mock' uses the bundled in-memory backend, or pass your own */
+  transport: 'network' | 'mock' | Transport;
+  /** Simulated latency, failures and timeouts, optionally per route */
+  network?: NetworkConditions;
+  /** Check payloads against the zod schemas in ./schemas (requests cover bodies and queries) */
+  validation: { responses: boolean; requests: boolean };
+  /** Default retry policy; calls can override it through `FetchInput.retry` */
+  retry: RetryPolicy;
+  /** Runs around every attempt, outermost first */
+  middleware: Middleware[];
+  /** Caps in-flight attempts per origin and orders the queue; omit to send everything at once */
+  scheduler?: Scheduler;
+  /** Told about attempts waiting on `scheduler`, which middleware only sees once they're sent */
+  queueObservers: QueueObserver[];
+};
+
+export type FetchOptions = {
+  retry?: RetryPolicy | false;
+  /** Queue position while the origin is at its concurrency limit */
+  priority?: Priority;
+  /** Sees the successful response after parsing, for headers like `X-Total-Count` */
+  onResponse?: (response: Response) => void;
+};
+
+export type FetchData = <T>(url: string, init?: RequestInit, opt?: FetchOptions) => Promise<T>;
+
+// Set VITE_API_MOCK=true to run every example offline without touching its code
+export function defaultHttpConfig(): HttpConfig {
+  return {
+    baseUrl: BASE_URL,
+    transport: import.meta.env?.VITE_API_MOCK === 'true' ? 'mock' : 'network',
+    validation: { responses: true, requests: false },
+    retry: NO_RETRY,
+    middleware: [],
+    queueObservers: [],
+  };
+}
+
+function resolveTransport(transport: HttpConfig['transport']): Transport {
+  if (transport === 'mock') return mockFetch;
+  if (transport === 'network') return (url, init) => fetch(url, init);
+  return transport;
+}
+
+// `/posts/1` for both `${baseUrl}/posts/1?x=1` and absolute urls elsewhere
+function routePath(url: string, baseUrl: string) {
+  const relative = url.startsWith(baseUrl) ? url.slice(baseUrl.length) : new URL(url).pathname;
+  return relative.split(/[?#]/)[0] || '/';
+}
+
 async function handleJson<T>(res: Response): Promise<T> {
   const text = await res.text();
   if (!res.ok) {
-    const err: HttpError = {
-      kind: 'http',
+    throw new HttpError({
       status: res.status,
       statusText: res.statusText,
       url: res.url,
       bodyText: text || undefined,
-    };
-    throw err;
+      retryAfter: parseRetryAfter(res.headers.get('Retry-After')),
+    });
   }
   try {
     return text ? (JSON.parse(text) as T) : (undefined as unknown as T);
   } catch (e) {
-    const err: ParseError = { kind: 'parse', message: (e as Error).message };
-    throw err;
+    throw new ParseError({ message: (e as Error).message, cause: e });
   }
 }
 
-export async function fetchData<T>(url: string, init?: RequestInit): Promise<T> {
-  try {
-    const res = await fetch(url, init);
-    return handleJson<T>(res);
-  } catch (e) {
-    if ((e as ClientError)?.kind) throw e as ClientError;
-    throw { kind: 'network', message: (e as Error).message } as ClientError;
+/**
+ * Build the fetch function for one client. `config` is read on every call, so changes
+ * made through the client's `configure` apply to requests that start afterwards.
+ */
+export function createFetchData(config: HttpConfig): FetchData {
+  // Innermost step of the pipeline: simulated network conditions, then the real transport
+  async function send(ctx: RequestContext): Promise<Response> {
+    const { network } = config;
+    const { delay, failure } = resolveConditions(network, ctx.path, ctx.method);
+    await sleep(sampleDelay(delay, network?.random), ctx.init.signal ?? undefined);
+    const simulated = simulateFailure(failure, ctx.url, network?.random);
+    if (simulated) throw simulated;
+    return resolveTransport(config.transport)(ctx.url, ctx.init);
+  }
+
+  async function attempt<T>(url: string, init?: RequestInit, opt?: FetchOptions): Promise<T> {
+    const path = routePath(url, config.baseUrl);
+    const method = init?.method ?? 'GET';
+    const { timeout } = resolveConditions(config.network, path, method);
+    const timeoutSignal = timeout !== undefined ? AbortSignal.timeout(timeout) : undefined;
+    const signal =
+      timeoutSignal && init?.signal
+        ? AbortSignal.any([init.signal, timeoutSignal])
+        : (timeoutSignal ?? init?.signal);
+
+    try {
+      const run = compose(config.middleware, send);
+      const res = await run({ url, path, method, init: { ...init, signal } });
+      const data = await handleJson<T>(res);
+      opt?.onResponse?.(res);
+      return data;
+    } catch (e) {
+      // Whatever the transport threw, a cancelled caller sees a cancellation
+      if (init?.signal?.aborted) throw new AbortedError({ cause: e });
+      if (timeoutSignal?.aborted) {
+        throw new NetworkError({
+          message: `Request timed out after ${timeout}ms`,
+          reason: 'timeout',
+          cause: e,
+        });
+      }
+      throw toClientError(e);
+    }
   }
+
+  // Timeouts start once the scheduler lets the attempt run, not while it waits in the queue
+  function attemptFetch<T>(url: string, init?: RequestInit, opt?: FetchOptions): Promise<T> {
+    const { scheduler } = config;
+    if (!scheduler) return attempt<T>(url, init, opt);
+    const request = { url, path: routePath(url, config.baseUrl), method: init?.method ?? 'GET' };
+    const observed = config.queueObservers.map((observe) => observe(request));
+    let started = false;
+    const scheduled = scheduler.schedule(
+      originOf(url),
+      () => {
+        started = true;
+        observed.forEach((handle) => handle?.started?.());
+        return attempt<T>(url, init, opt);
+      },
+      { priority: opt?.priority, signal: init?.signal },
+    );
+    if (observed.length === 0) return scheduled;
+    return scheduled.catch((e: unknown) => {
+      if (!started) observed.forEach((handle) => handle?.dropped?.(e));
+      throw e;
+    });
+  }
+
+  /**
+   * Fetch and parse JSON, retrying according to the call's policy (or the client's).
+   * Aborting `init.signal` stops immediately, including mid-backoff, and the error that
+   * finally surfaces records how many attempts were made.
+   */
+  return async function fetchData<T>(
+    url: string,
+    init?: RequestInit,
+    opt?: FetchOptions,
+  ): Promise<T> {
+    const policy = opt?.retry === false ? NO_RETRY : (opt?.retry ?? config.retry);
+    const method = init?.method ?? 'GET';
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await attemptFetch<T>(url, init, opt);
+      } catch (e) {
+        const error = e as ClientError;
+        const giveUp = () => Object.assign(error, { attempts: attempt });
+        const context = { error, attempt, method };
+        if (init?.signal?.aborted || !shouldRetry(policy, context)) throw giveUp();
+
+        try {
+          await sleep(
+            backoffDelay(policy, context, config.network?.random),
+            init?.signal ?? undefined,
+          );
+        } catch {
+          throw giveUp();
+        }
+      }
+    }
+  };
 }
 
 export type Query = Record<string, unknown> | undefined;
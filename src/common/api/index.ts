@@ -4,8 +4,59 @@ export * from './types';
 export * from './routes';
 
 // low-level fetch helpers
-export { BASE_URL, fetchData as doFetch } from './http';
+export { BASE_URL } from './http';
+export type { FetchData, HttpConfig, Transport } from './http';
+export { createClient } from './client';
+export type { Client, ClientOptions } from './client';
+export { ClientContext, useClient } from './client-context';
+export { AbortScopeProvider, createAbortScope, useAbortScope, withSignal } from './abort-scope';
+export type { AbortScope } from './abort-scope';
+export * from './default-client';
+export { fetchData as doFetch } from './default-client';
+export type {
+  Delay,
+  Distribution,
+  Failure,
+  NetworkConditions,
+  NetworkRule,
+} from './network-conditions';
+export { isRetryable } from './retry';
+export { compose, logRequests, setHeaders, timeRequests } from './middleware';
+export type { Middleware, Next, RequestContext, RequestTiming } from './middleware';
+export type { RetryContext, RetryPolicy } from './retry';
+export { createRecorder, createReplayTransport, fromHar, recordingKey, toHar } from './recording';
+export type { Har, HarEntry, RecordedEntry, Recorder, Recording, ReplayOptions } from './recording';
+export { createMockFetch, mockFetch, resetMockDatabase } from './mock';
+export { createScheduler } from './scheduler';
+export type {
+  Priority,
+  QueuedRequest,
+  QueueObservation,
+  QueueObserver,
+  ScheduleOptions,
+  Scheduler,
+  SchedulerOptions,
+  SchedulerStats,
+} from './scheduler';
+export type { BatchOptions, BatchRoute } from './batch';
 export * from './low-level';
+export * from './cache';
+export * from './suspense';
+export * from './pagination';
+export { applyQuery, matchesQuery, sortByQuery } from './resource-query';
+export type {
+  Embeddable,
+  Expandable,
+  Joined,
+  RelationOpt,
+  ResourceKey,
+  ResourceOfRoute,
+} from './relations';
+export * from './infinite-list';
+export * from './network-log';
+export * from './error-messages';
+export * from './mutations';
+export * from './offline-queue';
 
 // resources
 export * from './posts';
@@ -14,3 +65,4 @@ export * from './albums';
 export * from './photos';
 export * from './todos';
 export * from './users';
+export * from './generated';
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ClientError, PageQuery } from './types';
+import { toClientError } from './types';
+import { parseQueryKey, queryKey } from './cache';
+import { useClient } from './client-context';
+import type { ItemOf, ListRoute, Page } from './pagination';
+
+export type InfiniteList<T> = {
+  /** Every loaded page flattened, in order */
+  items: T[];
+  pages: Page<T>[];
+  total?: number;
+  hasNext: boolean;
+  isLoading: boolean;
+  error: ClientError | undefined;
+  /** Fetch the page after the last one; ignored while loading or at the end */
+  loadMore: () => void;
+  /** Drop loaded pages and start again from the first */
+  reset: () => void;
+};
+
+type State<T> = {
+  key: string;
+  pages: Page<T>[];
+  isLoading: boolean;
+  error?: ClientError;
+};
+
+/**
+ * Accumulate pages of a list route for "load more" buttons and infinite scroll:
+ *
+ *   const { items, hasNext, loadMore } = useInfiniteList('/posts', { _limit: 20 });
+ *
+ * Changing `path` or `q` starts over from the first page. In-flight requests are aborted
+ * when the list resets or the component unmounts.
+ */
+export function useInfiniteList<P extends ListRoute>(
+  path: P,
+  q?: PageQuery,
+): InfiniteList<ItemOf<P>> {
+  const client = useClient();
+  // Inline query objects are new every render; key the list by value instead
+  const key = queryKey(path, q);
+  const query = useMemo(() => parseQueryKey<P, PageQuery | undefined>(key)[1], [key]);
+  const [state, setState] = useState<State<ItemOf<P>>>({ key, pages: [], isLoading: true });
+  const controller = useRef<AbortController | undefined>(undefined);
+
+  const load = useCallback(
+    (pageQuery: PageQuery | undefined, append: boolean) => {
+      controller.current?.abort();
+      const current = new AbortController();
+      controller.current = current;
+      setState((previous) => ({
+        key,
+        pages: append && previous.key === key ? previous.pages : [],
+        isLoading: true,
+      }));
+
+      client.getPage(path, pageQuery, { signal: current.signal }).then(
+        (page) => {
+          if (current.signal.aborted) return;
+          setState((previous) => ({
+            key,
+            pages: append ? [...previous.pages, page] : [page],
+            isLoading: false,
+          }));
+        },
+        (error: unknown) => {
+          if (current.signal.aborted) return;
+          setState((previous) => ({
+            ...previous,
+            isLoading: false,
+            error: toClientError(error),
+          }));
+        },
+      );
+    },
+    [client, path, key],
+  );
+
+  useEffect(() => {
+    load(query, false);
+    return () => controller.current?.abort();
+  }, [load, query]);
+
+  // Until the effect above runs, a new key must not show the previous list
+  const current = state.key === key ? state : { key, pages: [], isLoading: true };
+  const last = current.pages[current.pages.length - 1];
+
+  const loadMore = useCallback(() => {
+    if (current.isLoading || !last?.next) return;
+    load(last.next, true);
+  }, [current.isLoading, last, load]);
+
+  const reset = useCallback(() => load(query, false), [load, query]);
+
+  return {
+    items: current.pages.flatMap((page) => page.items),
+    pages: current.pages,
+    total: last?.total,
+    hasNext: last?.hasNext ?? false,
+    isLoading: current.isLoading,
+    error: current.error,
+    loadMore,
+    reset,
+  };
+}
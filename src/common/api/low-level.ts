@@ -30,7 +30,18 @@ import type {
   UsersRoute,
   UserTodosRoute,
 } from './routes';
-import { BASE_URL, fetchData, withQuery } from './http';
+import type {
+  GeneratedGetRouteMap,
+  GeneratedPatchRouteMap,
+  GeneratedPostRouteMap,
+  GeneratedPutRouteMap,
+} from './generated';
+import { withQuery } from './http';
+import { withRelations } from './relations';
+import type { Embeddable, Expandable, Joined, RelationOpt } from './relations';
+import type { FetchData, HttpConfig } from './http';
+import type { QueryCache } from './cache';
+import { validateBody, validateQuery, validateResponse } from './validation';
 
 // Route → payload maps for cleaner lookup types
 type GetRouteMap =
@@ -50,7 +61,8 @@ type GetRouteMap =
   | { route: AlbumPhotosRoute; res: Photo[] }
   | { route: UserAlbumsRoute; res: Album[] }
   | { route: UserTodosRoute; res: Todo[] }
-  | { route: UserPostsRoute; res: Post[] };
+  | { route: UserPostsRoute; res: Post[] }
+  | GeneratedGetRouteMap;
 
 type PostRouteMap =
   | { route: PostsRoute; body: Pick<Post, 'title' | 'body' | 'userId'>; res: Post }
@@ -58,7 +70,8 @@ type PostRouteMap =
   | { route: AlbumsRoute; body: Omit<Album, 'id'>; res: Album }
   | { route: PhotosRoute; body: Omit<Photo, 'id'>; res: Photo }
   | { route: TodosRoute; body: Omit<Todo, 'id'>; res: Todo }
-  | { route: UsersRoute; body: Omit<User, 'id'>; res: User };
+  | { route: UsersRoute; body: Omit<User, 'id'>; res: User }
+  | GeneratedPostRouteMap;
 
 type PutRouteMap =
   | { route: PostRoute; body: Post; res: Post }
@@ -66,7 +79,8 @@ type PutRouteMap =
   | { route: AlbumRoute; body: Album; res: Album }
   | { route: PhotoRoute; body: Photo; res: Photo }
   | { route: TodoRoute; body: Todo; res: Todo }
-  | { route: UserRoute; body: User; res: User };
+  | { route: UserRoute; body: User; res: User }
+  | GeneratedPutRouteMap;
 
 type PatchRouteMap =
   | { route: PostRoute; body: Partial<Post>; res: Post }
@@ -74,11 +88,14 @@ type PatchRouteMap =
   | { route: AlbumRoute; body: Partial<Album>; res: Album }
   | { route: PhotoRoute; body: Partial<Photo>; res: Photo }
   | { route: TodoRoute; body: Partial<Todo>; res: Todo }
-  | { route: UserRoute; body: Partial<User>; res: User };
+  | { route: UserRoute; body: Partial<User>; res: User }
+  | GeneratedPatchRouteMap;
 
 type RouteOf<M> = M extends { route: infer R } ? R : never;
-type BodyOf<M, P> = Extract<M, { route: P }> extends { body: infer B } ? B : never;
-type ResOf<M, P> = Extract<M, { route: P }> extends { res: infer R } ? R : unknown;
+// Match by assignability so a literal like '/posts/1' finds the `/posts/${number}` entry
+type EntryFor<M, P> = M extends { route: infer R } ? ([P] extends [R] ? M : never) : never;
+type BodyOf<M, P> = EntryFor<M, P> extends { body: infer B } ? B : never;
+type ResOf<M, P> = EntryFor<M, P> extends { res: infer R } ? R : unknown;
 
 export type CreatableRoute = RouteOf<PostRouteMap>;
 
@@ -89,80 +106,171 @@ export type PutBody<P> = BodyOf<PutRouteMap, P>;
 export type PatchBody<P> = BodyOf<PatchRouteMap, P>;
 export type MutationResponse<P> = ResOf<PutRouteMap | PatchRouteMap, P>;
 
-type QueryOpt = { q?: PageQuery | ListQuery } & FetchInput;
+type QueryOpt = {
+  q?: PageQuery | ListQuery;
+  /** Read headers off the response, e.g. pagination's `X-Total-Count` and `Link` */
+  onResponse?: (response: Response) => void;
+} & FetchInput;
+type CachedQueryOpt = QueryOpt & { staleTime?: number };
 
-export function url(path: AnyRoute) {
-  return `${BASE_URL}${path}`;
-}
+export type MutationOpt = FetchInput & {
+  /** Set to false when the caller reconciles the cache itself (optimistic updates) */
+  invalidate?: boolean;
+};
 
-export async function get<P extends AnyRoute>(path: P, opt?: QueryOpt): Promise<GetResponse<P>> {
-  const target = withQuery(url(path), opt?.q);
-  return fetchData<GetResponse<P>>(target, {
-    method: 'GET',
-    signal: opt?.signal,
-    ...opt?.init,
-  });
+// Shared by post/put/patch; caller headers win, but Content-Type is always set
+function jsonInit(method: string, body: unknown, opt?: FetchInput): RequestInit {
+  const headers = new Headers(opt?.init?.headers);
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json; charset=UTF-8');
+  }
+  return { ...opt?.init, method, body: JSON.stringify(body), headers, signal: opt?.signal };
 }
 
-export async function post<P extends CreatableRoute>(
-  path: P,
-  body: PostBody<P>,
-  opt?: FetchInput,
-): Promise<PostResponse<P>> {
-  const target = url(path);
-  return fetchData<PostResponse<P>>(target, {
-    method: 'POST',
-    body: JSON.stringify(body as object),
-    headers: { 'Content-Type': 'application/json; charset=UTF-8', ...opt?.init?.headers },
-    signal: opt?.signal,
-    ...opt?.init,
-  });
-}
+export type RequestDeps = {
+  config: Readonly<HttpConfig>;
+  fetchData: FetchData;
+  /** Backs `query()` and is invalidated after every write */
+  cache: QueryCache;
+};
 
-export async function put<P extends ItemRoute>(
-  path: P,
-  body: PutBody<P>,
-  opt?: FetchInput,
-): Promise<MutationResponse<P>> {
-  const target = url(path);
-  return fetchData<MutationResponse<P>>(target, {
-    method: 'PUT',
-    body: JSON.stringify(body as object),
-    headers: { 'Content-Type': 'application/json; charset=UTF-8', ...opt?.init?.headers },
-    signal: opt?.signal,
-    ...opt?.init,
-  });
-}
+/** Typed verbs bound to one client's config, fetcher and cache. See `createClient`. */
+export function createRequestHelpers({ config, fetchData, cache }: RequestDeps) {
+  function url(path: AnyRoute) {
+    return `${config.baseUrl}${path}`;
+  }
 
-export async function patch<P extends ItemRoute>(
-  path: P,
-  body: PatchBody<P>,
-  opt?: FetchInput,
-): Promise<MutationResponse<P>> {
-  const target = url(path);
-  return fetchData<MutationResponse<P>>(target, {
-    method: 'PATCH',
-    body: JSON.stringify(body as object),
-    headers: { 'Content-Type': 'application/json; charset=UTF-8', ...opt?.init?.headers },
-    signal: opt?.signal,
-    ...opt?.init,
-  });
-}
+  /**
+   * `embed`/`expand` join related records in the same request and widen the result type:
+   * `get('/posts/1', { embed: ['comments'] })` resolves to `Post & { comments: Comment[] }`.
+   */
+  async function get<
+    P extends AnyRoute,
+    E extends Embeddable<P> = never,
+    X extends Expandable<P> = never,
+  >(path: P, opt?: QueryOpt & RelationOpt<E, X>): Promise<Joined<GetResponse<P>, E, X>> {
+    const { validation } = config;
+    const target = withQuery(url(path), withRelations(opt?.q, opt));
+    if (validation.requests) validateQuery(path, opt?.q, target);
+    const data = await fetchData<unknown>(
+      target,
+      {
+        method: 'GET',
+        signal: opt?.signal,
+        ...opt?.init,
+      },
+      { retry: opt?.retry, priority: opt?.priority, onResponse: opt?.onResponse },
+    );
+    return validation.responses
+      ? validateResponse(path, 'GET', data, target, opt)
+      : (data as Joined<GetResponse<P>, E, X>);
+  }
 
-export async function del<P extends ItemRoute>(path: P, opt?: FetchInput): Promise<void> {
-  const target = url(path);
-  await fetchData<unknown>(target, {
-    method: 'DELETE',
-    signal: opt?.signal,
-    ...opt?.init,
-  });
-}
+  /**
+   * Cached `get`: concurrent calls share one request, data younger than `staleTime`
+   * is served from the client's cache, and older data is returned while it revalidates.
+   */
+  async function query<
+    P extends AnyRoute,
+    E extends Embeddable<P> = never,
+    X extends Expandable<P> = never,
+  >(path: P, opt?: CachedQueryOpt & RelationOpt<E, X>): Promise<Joined<GetResponse<P>, E, X>> {
+    return cache.fetchQuery(
+      path,
+      withRelations(opt?.q, opt),
+      () =>
+        get(path, {
+          q: opt?.q,
+          embed: opt?.embed,
+          expand: opt?.expand,
+          init: opt?.init,
+          retry: opt?.retry,
+          priority: opt?.priority,
+        }),
+      {
+        staleTime: opt?.staleTime,
+        signal: opt?.signal,
+      },
+    );
+  }
 
-// Convenience aliases that feel familiar
-export { del as delete };
+  async function post<P extends CreatableRoute>(
+    path: P,
+    body: PostBody<P>,
+    opt?: MutationOpt,
+  ): Promise<PostResponse<P>> {
+    const { validation } = config;
+    const target = url(path);
+    if (validation.requests) validateBody(path, 'POST', body, target);
+    const data = await fetchData<unknown>(target, jsonInit('POST', body, opt), {
+      retry: opt?.retry,
+      priority: opt?.priority,
+    });
+    if (opt?.invalidate !== false) cache.invalidateRoute(path);
+    return validation.responses
+      ? validateResponse(path, 'POST', data, target)
+      : (data as PostResponse<P>);
+  }
 
-// Raw helper for custom endpoints
-export async function raw<T = unknown>(path: string, init?: RequestInit): Promise<T> {
-  const absolute = path.startsWith('http') ? path : `${BASE_URL}/${path.replace(/^\/+/, '')}`;
-  return fetchData<T>(absolute, init);
+  async function put<P extends ItemRoute>(
+    path: P,
+    body: PutBody<P>,
+    opt?: MutationOpt,
+  ): Promise<MutationResponse<P>> {
+    const { validation } = config;
+    const target = url(path);
+    if (validation.requests) validateBody(path, 'PUT', body, target);
+    const data = await fetchData<unknown>(target, jsonInit('PUT', body, opt), {
+      retry: opt?.retry,
+      priority: opt?.priority,
+    });
+    if (opt?.invalidate !== false) cache.invalidateRoute(path);
+    return validation.responses
+      ? validateResponse(path, 'PUT', data, target)
+      : (data as MutationResponse<P>);
+  }
+
+  async function patch<P extends ItemRoute>(
+    path: P,
+    body: PatchBody<P>,
+    opt?: MutationOpt,
+  ): Promise<MutationResponse<P>> {
+    const { validation } = config;
+    const target = url(path);
+    if (validation.requests) validateBody(path, 'PATCH', body, target);
+    const data = await fetchData<unknown>(target, jsonInit('PATCH', body, opt), {
+      retry: opt?.retry,
+      priority: opt?.priority,
+    });
+    if (opt?.invalidate !== false) cache.invalidateRoute(path);
+    return validation.responses
+      ? validateResponse(path, 'PATCH', data, target)
+      : (data as MutationResponse<P>);
+  }
+
+  async function del<P extends ItemRoute>(path: P, opt?: MutationOpt): Promise<void> {
+    const target = url(path);
+    await fetchData<unknown>(
+      target,
+      {
+        method: 'DELETE',
+        signal: opt?.signal,
+        ...opt?.init,
+      },
+      { retry: opt?.retry, priority: opt?.priority },
+    );
+    if (opt?.invalidate !== false) cache.invalidateRoute(path);
+  }
+
+  // Raw helper for custom endpoints
+  async function raw<T = unknown>(path: string, init?: RequestInit): Promise<T> {
+    const absolute = path.startsWith('http')
+      ? path
+      : `${config.baseUrl}/${path.replace(/^\/+/, '')}`;
+    return fetchData<T>(absolute, init);
+  }
+
+  return { url, get, query, post, put, patch, del, raw };
 }
+
+export type RequestHelpers = ReturnType<typeof createRequestHelpers>;
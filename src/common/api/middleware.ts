@@ -0,0 +1,76 @@
+export type RequestContext = {
+  url: string;
+  /** Path relative to the API origin, e.g. `/posts/1`; handy for matching routes */
+  path: string;
+  method: string;
+  /** Replace or mutate freely; the next middleware (and finally the transport) sees it */
+  init: RequestInit;
+};
+
+export type Next = (ctx: RequestContext) => Promise<Response>;
+
+/**
+ * Wraps every request attempt. Call `next(ctx)` to continue down the chain, return a
+ * `Response` without calling it to short-circuit (cache, mock), or throw a `ClientError`
+ * to fail the request with your own error.
+ */
+export type Middleware = (ctx: RequestContext, next: Next) => Promise<Response>;
+
+/** Run `middleware` outermost-first around `send`. */
+export function compose(middleware: readonly Middleware[], send: Next): Next {
+  return middleware.reduceRight<Next>((next, current) => (ctx) => current(ctx, next), send);
+}
+
+/** Add headers to every request, e.g. `setHeaders(() => ({ Authorization: token() }))`. */
+export function setHeaders(
+  headers: HeadersInit | ((ctx: RequestContext) => HeadersInit),
+): Middleware {
+  return (ctx, next) => {
+    const merged = new Headers(ctx.init.headers);
+    const extra = new Headers(typeof headers === 'function' ? headers(ctx) : headers);
+    extra.forEach((value, key) => merged.set(key, value));
+    return next({ ...ctx, init: { ...ctx.init, headers: merged } });
+  };
+}
+
+export type RequestTiming = {
+  method: string;
+  url: string;
+  path: string;
+  start: number;
+  duration: number;
+  status?: number;
+  error?: unknown;
+};
+
+/** Report how long each attempt took, whether it got a response or threw. */
+export function timeRequests(onTiming: (timing: RequestTiming) => void): Middleware {
+  return async (ctx, next) => {
+    const start = performance.now();
+    const { method, url, path } = ctx;
+    try {
+      const res = await next(ctx);
+      onTiming({
+        method,
+        url,
+        path,
+        start,
+        duration: performance.now() - start,
+        status: res.status,
+      });
+      return res;
+    } catch (error) {
+      onTiming({ method, url, path, start, duration: performance.now() - start, error });
+      throw error;
+    }
+  };
+}
+
+/** Log each attempt to the console (or anything with `info`/`warn`). */
+export function logRequests(logger: Pick<Console, 'info' | 'warn'> = console): Middleware {
+  return timeRequests(({ method, path, duration, status, error }) => {
+    const ms = `${Math.round(duration)}ms`;
+    if (error !== undefined) logger.warn(`✗ ${method} ${path} failed after ${ms}`, error);
+    else logger.info(`✓ ${method} ${path} ${status} in ${ms}`);
+  });
+}
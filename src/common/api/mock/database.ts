@@ -0,0 +1,58 @@
+import {
+  createAlbums,
+  createComments,
+  createPhotos,
+  createPosts,
+  createTodos,
+  createUsers,
+} from './fixtures';
+
+export type ResourceName = 'posts' | 'comments' | 'albums' | 'photos' | 'todos' | 'users';
+
+export type MockRecord = { id: number } & Record<string, unknown>;
+
+export type MockDatabase = Record<ResourceName, MockRecord[]>;
+
+export const RESOURCES: readonly ResourceName[] = [
+  'posts',
+  'comments',
+  'albums',
+  'photos',
+  'todos',
+  'users',
+];
+
+// Nested list routes (`/posts/1/comments`) filter the child collection by this foreign key
+export const RELATIONS: Partial<Record<ResourceName, Partial<Record<ResourceName, string>>>> = {
+  posts: { comments: 'postId' },
+  albums: { photos: 'albumId' },
+  users: { albums: 'userId', todos: 'userId', posts: 'userId' },
+};
+
+export function isResourceName(value: string | undefined): value is ResourceName {
+  return RESOURCES.includes(value as ResourceName);
+}
+
+export function createMockDatabase(): MockDatabase {
+  return {
+    posts: createPosts(),
+    comments: createComments(),
+    albums: createAlbums(),
+    photos: createPhotos(),
+    todos: createTodos(),
+    users: createUsers(),
+  };
+}
+
+let database: MockDatabase | undefined;
+
+// Seeded lazily so apps that never touch the mock don't pay for 5000 photos
+export function getMockDatabase(): MockDatabase {
+  database ??= createMockDatabase();
+  return database;
+}
+
+/** Restore the seeded fixtures, discarding any writes made through the mock backend. */
+export function resetMockDatabase() {
+  database = createMockDatabase();
+}
@@ -0,0 +1,148 @@
+import type { Album, Comment, Id, Photo, Post, Todo, User } from '../types';
+
+// Deterministic seed data shaped like JSONPlaceholder's dataset:
+// 10 users, 100 posts, 500 comments, 100 albums, 5000 photos and 200 todos.
+
+const WORDS = [
+  'sunt aut facere repellat provident occaecati excepturi optio reprehenderit quia et',
+  'suscipit recusandae consequuntur expedita rerum tempore vitae sequi sint nihil',
+  'reiciendis odit qui est esse dolor beatae ea dolores neque fugiat blanditiis voluptate',
+  'porro vel nulla magnam molestiae ullam voluptatem accusantium eum laudantium iure',
+  'nostrum modi harum natus omnis',
+]
+  .join(' ')
+  .split(' ');
+
+const COLORS = ['92c952', '771796', '24f355', 'd32776', 'f66b97', '56a8c2', 'b0f7cc', '54176f'];
+
+// Small seeded PRNG (mulberry32) so every run produces the same fixtures
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createLorem(seed: number) {
+  const random = createRandom(seed);
+  const word = () => WORDS[Math.floor(random() * WORDS.length)];
+  const words = (min: number, max: number) =>
+    Array.from({ length: min + Math.floor(random() * (max - min + 1)) }, word).join(' ');
+  const paragraph = (lines: number) => Array.from({ length: lines }, () => words(6, 10)).join('\n');
+  return { random, words, paragraph };
+}
+
+const id = (value: number) => value as Id;
+
+// Parent id for the nth child when children are evenly split across parents
+const parentOf = (childId: number, perParent: number) => id(Math.ceil(childId / perParent));
+
+export function createUsers(): User[] {
+  const people = [
+    ['Leanne Graham', 'Bret', 'Sincere@april.biz', 'Gwenborough', 'Romaguera-Crona'],
+    ['Ervin Howell', 'Antonette', 'Shanna@melissa.tv', 'Wisokyburgh', 'Deckow-Crist'],
+    ['Clementine Bauch', 'Samantha', 'Nathan@yesenia.net', 'McKenziehaven', 'Romaguera-Jacobson'],
+    ['Patricia Lebsack', 'Karianne', 'Julianne.OConner@kory.org', 'South Elvis', 'Robel-Corkery'],
+    ['Chelsey Dietrich', 'Kamren', 'Lucio_Hettinger@annie.ca', 'Roscoeview', 'Keebler LLC'],
+    [
+      'Mrs. Dennis Schulist',
+      'Leopoldo_Corkery',
+      'Karley_Dach@jasper.info',
+      'South Christy',
+      'Considine-Lockman',
+    ],
+    ['Kurtis Weissnat', 'Elwyn.Skiles', 'Telly.Hoeger@billy.biz', 'Howemouth', 'Johns Group'],
+    [
+      'Nicholas Runolfsdottir V',
+      'Maxime_Nienow',
+      'Sherwood@rosamond.me',
+      'Aliyaview',
+      'Abernathy Group',
+    ],
+    ['Glenna Reichert', 'Delphine', 'Chaim_McDermott@dana.io', 'Bartholomebury', 'Yost and Sons'],
+    ['Clementina DuBuque', 'Moriah.Stanton', 'Rey.Padberg@karina.biz', 'Lebsackbury', 'Hoeger LLC'],
+  ] as const;
+  const lorem = createLorem(1);
+
+  return people.map(([name, username, email, city, company], index) => ({
+    id: id(index + 1),
+    name,
+    username,
+    email,
+    address: {
+      street: `${lorem.words(1, 2)} Street`,
+      suite: `Apt. ${100 + Math.floor(lorem.random() * 900)}`,
+      city,
+      zipcode: String(10000 + Math.floor(lorem.random() * 89999)),
+      geo: {
+        lat: (lorem.random() * 180 - 90).toFixed(4),
+        lng: (lorem.random() * 360 - 180).toFixed(4),
+      },
+    },
+    phone: `1-770-736-${String(1000 + index * 731).slice(-4)}`,
+    website: `${username.toLowerCase().replace(/[^a-z]/g, '')}.org`,
+    company: {
+      name: company,
+      catchPhrase: lorem.words(3, 5),
+      bs: lorem.words(3, 4),
+    },
+  }));
+}
+
+export function createPosts(): Post[] {
+  const lorem = createLorem(2);
+  return Array.from({ length: 100 }, (_, index) => ({
+    userId: parentOf(index + 1, 10),
+    id: id(index + 1),
+    title: lorem.words(4, 9),
+    body: lorem.paragraph(4),
+  }));
+}
+
+export function createComments(): Comment[] {
+  const lorem = createLorem(3);
+  return Array.from({ length: 500 }, (_, index) => ({
+    postId: parentOf(index + 1, 5),
+    id: id(index + 1),
+    name: lorem.words(3, 7),
+    email: `${lorem.words(1, 1)}${index + 1}@example.com`,
+    body: lorem.paragraph(4),
+  }));
+}
+
+export function createAlbums(): Album[] {
+  const lorem = createLorem(4);
+  return Array.from({ length: 100 }, (_, index) => ({
+    userId: parentOf(index + 1, 10),
+    id: id(index + 1),
+    title: lorem.words(2, 6),
+  }));
+}
+
+export function createPhotos(): Photo[] {
+  const lorem = createLorem(5);
+  return Array.from({ length: 5000 }, (_, index) => {
+    const color = COLORS[index % COLORS.length];
+    return {
+      albumId: parentOf(index + 1, 50),
+      id: id(index + 1),
+      title: lorem.words(3, 8),
+      url: `https://via.placeholder.com/600/${color}`,
+      thumbnailUrl: `https://via.placeholder.com/150/${color}`,
+    };
+  });
+}
+
+export function createTodos(): Todo[] {
+  const lorem = createLorem(6);
+  return Array.from({ length: 200 }, (_, index) => ({
+    userId: parentOf(index + 1, 20),
+    id: id(index + 1),
+    title: lorem.words(3, 7),
+    completed: lorem.random() > 0.5,
+  }));
+}
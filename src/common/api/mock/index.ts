@@ -0,0 +1,3 @@
+export { createMockFetch, mockFetch } from './server';
+export { createMockDatabase, getMockDatabase, resetMockDatabase } from './database';
+export type { MockDatabase, MockRecord, ResourceName } from './database';
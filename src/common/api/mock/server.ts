@@ -0,0 +1,234 @@
+import qs from 'qs';
+import { createMockDatabase, getMockDatabase, isResourceName, RELATIONS } from './database';
+import type { MockDatabase, MockRecord, ResourceName } from './database';
+import { matchesQuery, sortByQuery } from '../resource-query';
+import type { ResourceQuery } from '../types';
+
+type Filters = Record<string, unknown>;
+
+const JSON_HEADERS = { 'Content-Type': 'application/json; charset=utf-8' };
+
+function respond(url: string, status: number, payload: unknown, headers?: HeadersInit) {
+  const res = new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...JSON_HEADERS, ...headers },
+  });
+  // `Response` built by hand has an empty url; mirror what fetch would report
+  Object.defineProperty(res, 'url', { value: url });
+  return res;
+}
+
+function notFound(url: string) {
+  return respond(url, 404, {});
+}
+
+function toInt(value: unknown) {
+  const n = Number(value);
+  return Number.isInteger(n) ? n : undefined;
+}
+
+function parseBody(body: RequestInit['body']): Record<string, unknown> {
+  if (typeof body !== 'string' || !body) return {};
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Parsed query strings are untyped; the evaluator coerces each value to its field's type
+function query(filters: Filters) {
+  return filters as ResourceQuery<MockRecord>;
+}
+
+function linkHeader(url: URL, filters: Filters, page: number, limit: number, lastPage: number) {
+  const link = (target: number, rel: string) => {
+    const query = qs.stringify(
+      { ...filters, _page: target, _limit: limit },
+      { arrayFormat: 'repeat' },
+    );
+    return `<${url.origin}${url.pathname}?${query}>; rel="${rel}"`;
+  };
+  const links = [link(1, 'first')];
+  if (page > 1) links.push(link(page - 1, 'prev'));
+  if (page < lastPage) links.push(link(page + 1, 'next'));
+  links.push(link(lastPage, 'last'));
+  return links.join(', ');
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+// json-server relations: `_embed=comments` attaches children by foreign key,
+// `_expand=user` attaches the parent referenced by `userId`
+function join(database: MockDatabase, name: ResourceName, records: MockRecord[], filters: Filters) {
+  const embeds = toList(filters._embed).filter(isResourceName);
+  const expands = toList(filters._expand);
+  if (embeds.length === 0 && expands.length === 0) return records;
+
+  return records.map((record) => {
+    const joined: MockRecord = { ...record };
+    embeds.forEach((child) => {
+      const foreignKey = RELATIONS[name]?.[child];
+      if (foreignKey)
+        joined[child] = database[child].filter((entry) => entry[foreignKey] === record.id);
+    });
+    expands.forEach((parent) => {
+      const resource = `${parent}s`;
+      if (!isResourceName(resource)) return;
+      joined[parent] = database[resource].find((entry) => entry.id === record[`${parent}Id`]);
+    });
+    return joined;
+  });
+}
+
+function list(database: MockDatabase, name: ResourceName, url: URL, filters: Filters) {
+  const matching = database[name].filter((record) => matchesQuery(record, query(filters)));
+  const found = join(database, name, sortByQuery(matching, query(filters)), filters);
+  const total = found.length;
+  const page = toInt(filters._page);
+  const limit = toInt(filters._limit);
+  const start = toInt(filters._start);
+  const end = toInt(filters._end);
+
+  if (page !== undefined) {
+    const size = limit ?? 10;
+    const lastPage = Math.max(1, Math.ceil(total / size));
+    const slice = found.slice((page - 1) * size, page * size);
+    return respond(url.href, 200, slice, {
+      'X-Total-Count': String(total),
+      Link: linkHeader(url, filters, page, size, lastPage),
+      'Access-Control-Expose-Headers': 'X-Total-Count, Link',
+    });
+  }
+
+  if (start !== undefined || end !== undefined || limit !== undefined) {
+    const from = start ?? 0;
+    const to = end ?? (limit !== undefined ? from + limit : total);
+    return respond(url.href, 200, found.slice(from, to), {
+      'X-Total-Count': String(total),
+      'Access-Control-Expose-Headers': 'X-Total-Count',
+    });
+  }
+
+  return respond(url.href, 200, found);
+}
+
+function nextId(records: MockRecord[]) {
+  return records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+}
+
+function handleCollection(
+  database: MockDatabase,
+  method: string,
+  url: URL,
+  name: ResourceName,
+  init?: RequestInit,
+) {
+  const records = database[name];
+  const filters = qs.parse(url.search, { ignoreQueryPrefix: true });
+
+  if (method === 'GET') return list(database, name, url, filters);
+  if (method === 'POST') {
+    const created = { ...parseBody(init?.body), id: nextId(records) };
+    records.push(created);
+    return respond(url.href, 201, created);
+  }
+  return notFound(url.href);
+}
+
+function handleItem(
+  database: MockDatabase,
+  method: string,
+  url: URL,
+  name: ResourceName,
+  id: number,
+  init?: RequestInit,
+) {
+  const records = database[name];
+  const index = records.findIndex((record) => record.id === id);
+  if (index === -1) return notFound(url.href);
+
+  switch (method) {
+    case 'GET': {
+      const filters = qs.parse(url.search, { ignoreQueryPrefix: true });
+      return respond(url.href, 200, join(database, name, [records[index]], filters)[0]);
+    }
+    case 'PUT':
+      records[index] = { ...parseBody(init?.body), id };
+      return respond(url.href, 200, records[index]);
+    case 'PATCH':
+      records[index] = { ...records[index], ...parseBody(init?.body), id };
+      return respond(url.href, 200, records[index]);
+    case 'DELETE':
+      records.splice(index, 1);
+      return respond(url.href, 200, {});
+    default:
+      return notFound(url.href);
+  }
+}
+
+function handleNested(
+  database: MockDatabase,
+  method: string,
+  url: URL,
+  parent: ResourceName,
+  id: number,
+  child: string,
+) {
+  const foreignKey = isResourceName(child) ? RELATIONS[parent]?.[child] : undefined;
+  if (method !== 'GET' || !foreignKey || !isResourceName(child)) return notFound(url.href);
+
+  if (!database[parent].some((record) => record.id === id)) return respond(url.href, 200, []);
+
+  const filters = { ...qs.parse(url.search, { ignoreQueryPrefix: true }), [foreignKey]: id };
+  return list(database, child, url, filters);
+}
+
+function route(database: MockDatabase, method: string, url: URL, init?: RequestInit): Response {
+  const segments = url.pathname.split('/').filter(Boolean);
+  // Skip whatever prefix the client's baseUrl adds (`/api/v1/posts` → `/posts`)
+  const start = Math.max(
+    0,
+    segments.findIndex((segment) => isResourceName(segment)),
+  );
+  const [name, rawId, child, ...rest] = segments.slice(start);
+  if (!isResourceName(name) || rest.length > 0) return notFound(url.href);
+  if (rawId === undefined) return handleCollection(database, method, url, name, init);
+
+  const id = toInt(rawId);
+  if (id === undefined) return notFound(url.href);
+  if (child === undefined) return handleItem(database, method, url, name, id, init);
+  return handleNested(database, method, url, name, id, child);
+}
+
+function serve(database: MockDatabase, input: string, init?: RequestInit): Response {
+  if (init?.signal?.aborted) {
+    throw init.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  const url = new URL(input, 'https://jsonplaceholder.typicode.com');
+  const method = (init?.method ?? 'GET').toUpperCase();
+  return route(database, method, url, init);
+}
+
+/**
+ * A `fetch`-compatible stand-in for JSONPlaceholder backed by in-memory fixtures.
+ * Writes persist until `resetMockDatabase()` is called, and responses are cloned
+ * so callers can't mutate the store by accident.
+ */
+export async function mockFetch(input: string, init?: RequestInit): Promise<Response> {
+  return serve(getMockDatabase(), input, init);
+}
+
+/**
+ * Same as `mockFetch`, but over a database of its own (fresh fixtures by default), so
+ * clients built with it can write without affecting each other or the shared mock.
+ */
+export function createMockFetch(database: MockDatabase = createMockDatabase()) {
+  return async (input: string, init?: RequestInit): Promise<Response> =>
+    serve(database, input, init);
+}
@@ -0,0 +1,416 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import type { ClientError, Id, ResourceQuery } from './types';
+import { NetworkError, toClientError } from './types';
+import type { CollectionRoute, ItemRoute } from './routes';
+import type {
+  CreatableRoute,
+  MutationResponse,
+  PatchBody,
+  PostBody,
+  PostResponse,
+  PutBody,
+} from './low-level';
+import type { RequestHelpers } from './low-level';
+import { describeRoute } from './cache';
+import { DEFAULT_PAGE_SIZE } from './pagination';
+import { matchesQuery, sortByQuery } from './resource-query';
+import { FOREIGN_KEYS } from './relations';
+import type { QueryCache } from './cache';
+import type { Query } from './http';
+import type { Client } from './client';
+
+type Item = { id: number } & Record<string, unknown>;
+
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/** An optimistic write that hasn't heard back from the server yet. */
+export type MutationRecord = {
+  id: number;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  route: CollectionRoute | ItemRoute;
+  /** Placeholder id shown in lists while a create is in flight */
+  tempId?: Id;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Mutation registry                             */
+/* -------------------------------------------------------------------------- */
+
+/** Negative ids never collide with server ids, so optimistic rows can use them as keys. */
+export function isTempId(id: number) {
+  return id < 0;
+}
+
+// Pending writes and temp ids live with the cache the placeholders are written into, so a
+// client rebound by `withSignal` (or another client sharing the cache) never reuses an id
+function createMutationRegistry() {
+  let records: MutationRecord[] = [];
+  const listeners = new Set<() => void>();
+  let nextMutationId = 1;
+  let nextTempId = -1;
+  // tempId → the server id it turns into, so writes queued against a placeholder still land
+  const resolvedIds = new Map<number, Promise<Id | undefined>>();
+
+  // Returns the function that settles the mutation; settled ones drop out of the registry
+  function track(record: Omit<MutationRecord, 'id'>) {
+    const id = nextMutationId++;
+    records = [...records, { ...record, id }];
+    listeners.forEach((listener) => listener());
+
+    return () => {
+      records = records.filter((entry) => entry.id !== id);
+      listeners.forEach((listener) => listener());
+    };
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  function createTempId(): Id {
+    return nextTempId-- as Id;
+  }
+
+  // Writes already waiting hold the promise; the entry goes once the create settles
+  function resolveTempId(tempId: Id, request: Promise<unknown>) {
+    const serverId = request.then(
+      (created) => (created as Item).id as Id,
+      () => undefined,
+    );
+    resolvedIds.set(tempId, serverId);
+    void serverId.then(() => resolvedIds.delete(tempId));
+  }
+
+  async function resolveId(route: ItemRoute): Promise<ItemRoute> {
+    const segments = route.split('/');
+    const id = Number(segments[2]);
+    if (!isTempId(id)) return route;
+    const serverId = await resolvedIds.get(id);
+    if (serverId === undefined) throw new NetworkError({ message: `Unknown temporary id ${id}` });
+    segments[2] = String(serverId);
+    return segments.join('/') as ItemRoute;
+  }
+
+  return {
+    track,
+    subscribe,
+    getRecords: () => records,
+    createTempId,
+    resolveTempId,
+    resolveId,
+  };
+}
+
+const registries = new WeakMap<QueryCache, ReturnType<typeof createMutationRegistry>>();
+
+function registryFor(cache: QueryCache) {
+  let registry = registries.get(cache);
+  if (!registry) {
+    registry = createMutationRegistry();
+    registries.set(cache, registry);
+  }
+  return registry;
+}
+
+/** Every optimistic mutation on this client still waiting on the server. */
+export function usePendingMutations(
+  client: Pick<Client, 'subscribeToMutations' | 'getPendingMutations'>,
+): MutationRecord[] {
+  return useSyncExternalStore(
+    client.subscribeToMutations,
+    client.getPendingMutations,
+    client.getPendingMutations,
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Cache patch helpers                          */
+/* -------------------------------------------------------------------------- */
+
+// Foreign key a nested list filters by: `/users/1/posts` → userId === 1
+function nestedFilter(route: string): [string, string] | undefined {
+  const [parent, parentId, child] = route.split('/').filter(Boolean);
+  if (!child || !(parent in FOREIGN_KEYS)) return undefined;
+  return [FOREIGN_KEYS[parent], parentId];
+}
+
+// How many rows a paginated list query holds, or undefined for an unpaginated one
+function pageSize(query: Query) {
+  const { _page, _limit, _start, _end } = query ?? {};
+  if (_limit !== undefined) return Number(_limit);
+  if (_end !== undefined) return Number(_end) - Number(_start ?? 0);
+  if (_page !== undefined) return DEFAULT_PAGE_SIZE;
+  return undefined;
+}
+
+// Would the server include `item` in this cached list? It appends new items, so a paginated
+// list only holds one on its last page, the one with room left; where it lands in a sorted
+// page can't be told from here
+function belongsTo(route: string, query: Query, list: Item[], item: Item) {
+  const size = pageSize(query);
+  if (size !== undefined) {
+    const { _page, _start, _sort } = query ?? {};
+    const isFirst = Number(_page ?? 1) === 1 && Number(_start ?? 0) === 0;
+    if (_sort !== undefined || list.length >= size) return false;
+    // An empty later page may be far past the end
+    if (list.length === 0 && !isFirst) return false;
+  }
+  const nested = nestedFilter(route);
+  if (nested && String(item[nested[0]]) !== nested[1]) return false;
+  return matchesQuery(item, query as ResourceQuery<Item>);
+}
+
+// Whether the server lists `a` after `b` in an unsorted list: in creation order, with
+// placeholders (newest last) after every saved row
+function listedAfter(a: Item, b: Item) {
+  if (isTempId(a.id) !== isTempId(b.id)) return isTempId(a.id);
+  return Math.abs(a.id) > Math.abs(b.id);
+}
+
+// `list` with `item` where the server would put it
+function insertInOrder(list: Item[], item: Item, query: Query) {
+  if (query?._sort !== undefined) {
+    return sortByQuery([...list, item], query as ResourceQuery<Item>);
+  }
+  const index = list.findIndex((other) => listedAfter(other, item));
+  return index === -1 ? [...list, item] : [...list.slice(0, index), item, ...list.slice(index)];
+}
+
+function listsOf(cache: QueryCache, resource: string) {
+  return cache.findAll<Item[]>((route) => {
+    const described = describeRoute(route);
+    return !described.isItem && described.resource === resource;
+  });
+}
+
+function replaceInLists(
+  cache: QueryCache,
+  resource: string,
+  id: number,
+  next: (item: Item) => Item | undefined,
+) {
+  listsOf(cache, resource).forEach(({ route, query, data }) => {
+    if (!data.some((item) => item.id === id)) return;
+    cache.setData<Item[]>(route, query, (list = []) =>
+      list.flatMap((item) => {
+        if (item.id !== id) return [item];
+        const replaced = next(item);
+        return replaced ? [replaced] : [];
+      }),
+    );
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Optimistic mutations                          */
+/* -------------------------------------------------------------------------- */
+
+/** Optimistic writes bound to one client's verbs and cache. See `createClient`. */
+export function createOptimisticMutations(
+  { post, put, patch, del }: RequestHelpers,
+  cache: QueryCache,
+) {
+  const registry = registryFor(cache);
+
+  /**
+   * Create an item and show it immediately in every cached list it belongs to under a
+   * temporary id. The placeholder is swapped for the server's item on success and
+   * removed again if the request fails.
+   */
+  async function createOptimistic<P extends CreatableRoute>(
+    path: P,
+    body: PostBody<P>,
+  ): Promise<PostResponse<P>> {
+    const { resource } = describeRoute(path);
+    const tempId = registry.createTempId();
+    const placeholder = { ...(body as object), id: tempId } as Item;
+
+    listsOf(cache, resource).forEach(({ route, query, data }) => {
+      if (!belongsTo(route, query, data, placeholder)) return;
+      cache.setData<Item[]>(route, query, (list = []) => insertInOrder(list, placeholder, query));
+    });
+
+    const settle = registry.track({ method: 'POST', route: path, tempId });
+    const request = post(path, body, { invalidate: false });
+    registry.resolveTempId(tempId, request);
+
+    try {
+      const created = await request;
+      replaceInLists(cache, resource, tempId, () => created as Item);
+      cache.setData(`${path}/${(created as Item).id}` as ItemRoute, undefined, created);
+      settle();
+      return created;
+    } catch (error) {
+      replaceInLists(cache, resource, tempId, () => undefined);
+      settle();
+      throw toClientError(error);
+    }
+  }
+
+  /**
+   * PATCH (or PUT with `replace: true`) an item, applying the change to the cached item
+   * and every cached list holding it right away. Previous values are restored on failure.
+   */
+  async function updateOptimistic<P extends ItemRoute>(
+    path: P,
+    changes: PatchBody<P>,
+    opt?: { replace?: false },
+  ): Promise<MutationResponse<P>>;
+  async function updateOptimistic<P extends ItemRoute>(
+    path: P,
+    changes: PutBody<P>,
+    opt: { replace: true },
+  ): Promise<MutationResponse<P>>;
+  async function updateOptimistic<P extends ItemRoute>(
+    path: P,
+    changes: PatchBody<P> | PutBody<P>,
+    opt?: { replace?: boolean },
+  ): Promise<MutationResponse<P>> {
+    const { resource } = describeRoute(path);
+    const id = Number(path.split('/')[2]);
+    const apply = (item: Item) =>
+      (opt?.replace ? { ...(changes as object), id } : { ...item, ...(changes as object) }) as Item;
+
+    const previous = new Map<string, Item>();
+    listsOf(cache, resource).forEach(({ route, query, data }) => {
+      const found = data.find((item) => item.id === id);
+      if (found) previous.set(JSON.stringify([route, query]), found);
+    });
+    replaceInLists(cache, resource, id, apply);
+    const cachedItem = cache.getState<Item>(path)?.data;
+    if (cachedItem) {
+      previous.set(path, cachedItem);
+      cache.setData(path, undefined, apply(cachedItem));
+    }
+
+    const settle = registry.track({ method: opt?.replace ? 'PUT' : 'PATCH', route: path });
+    // The server id once a placeholder has been swapped; lists hold that by the time we fail
+    let resolvedId = id;
+    try {
+      const target = (await registry.resolveId(path)) as P;
+      resolvedId = Number(target.split('/')[2]);
+      const updated = (await (opt?.replace
+        ? put(target, changes as PutBody<P>, { invalidate: false })
+        : patch(target, changes as PatchBody<P>, { invalidate: false }))) as Item;
+      // A placeholder may have been swapped for its server id while we waited
+      replaceInLists(cache, resource, id, () => updated);
+      replaceInLists(cache, resource, updated.id, () => updated);
+      cache.setData(target, undefined, updated);
+      settle();
+      return updated as MutationResponse<P>;
+    } catch (error) {
+      listsOf(cache, resource).forEach(({ route, query }) => {
+        const before = previous.get(JSON.stringify([route, query]));
+        if (!before) return;
+        cache.setData<Item[]>(route, query, (list = []) =>
+          list.map((item) =>
+            item.id === id || item.id === resolvedId ? { ...before, id: item.id } : item,
+          ),
+        );
+      });
+      const beforeItem = previous.get(path);
+      if (beforeItem) cache.setData(path, undefined, beforeItem);
+      settle();
+      throw toClientError(error);
+    }
+  }
+
+  /**
+   * Delete an item, dropping it from cached lists immediately. If the server refuses,
+   * the item is put back where the server lists it.
+   */
+  async function removeOptimistic<P extends ItemRoute>(path: P): Promise<void> {
+    const { resource } = describeRoute(path);
+    const id = Number(path.split('/')[2]);
+
+    const removed = listsOf(cache, resource).flatMap(({ route, query, data }) => {
+      const item = data.find((entry) => entry.id === id);
+      return item ? [{ route, query, item }] : [];
+    });
+    replaceInLists(cache, resource, id, () => undefined);
+
+    const settle = registry.track({ method: 'DELETE', route: path });
+    // The server id once a placeholder has been swapped, so a restored row keeps it
+    let resolvedId = id;
+    try {
+      const target = await registry.resolveId(path);
+      resolvedId = Number(target.split('/')[2]);
+      await del(target, { invalidate: false });
+      cache.remove(target);
+      if (target !== path) cache.remove(path);
+      settle();
+    } catch (error) {
+      // Other writes may have changed the lists meanwhile, so the old index means nothing
+      removed.forEach(({ route, query, item }) => {
+        cache.setData<Item[]>(route, query, (list = []) =>
+          insertInOrder(list, { ...item, id: resolvedId }, query),
+        );
+      });
+      settle();
+      throw toClientError(error);
+    }
+  }
+
+  return {
+    createOptimistic,
+    updateOptimistic,
+    removeOptimistic,
+    /** Placeholder id for an optimistic row, unique across everything sharing this cache */
+    createTempId: registry.createTempId,
+    subscribeToMutations: registry.subscribe,
+    getPendingMutations: registry.getRecords,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                     Hook                                   */
+/* -------------------------------------------------------------------------- */
+
+export type UseMutationResult<TArgs extends unknown[], TResult> = {
+  mutate: (...args: TArgs) => Promise<TResult>;
+  status: MutationStatus;
+  error: ClientError | undefined;
+  isPending: boolean;
+  reset: () => void;
+};
+
+/**
+ * Status for one mutation function, typically one of the optimistic helpers above:
+ *
+ *   const { mutate, isPending, error } = useMutation(createOptimistic<'/posts'>);
+ *
+ * `mutate` still rejects on failure so callers can keep a form's input around.
+ */
+export function useMutation<TArgs extends unknown[], TResult>(
+  mutation: (...args: TArgs) => Promise<TResult>,
+): UseMutationResult<TArgs, TResult> {
+  const [state, setState] = useState<{ status: MutationStatus; error?: ClientError }>({
+    status: 'idle',
+  });
+
+  const mutate = useCallback(
+    async (...args: TArgs) => {
+      setState({ status: 'pending' });
+      try {
+        const result = await mutation(...args);
+        setState({ status: 'success' });
+        return result;
+      } catch (error) {
+        setState({ status: 'error', error: toClientError(error) });
+        throw error;
+      }
+    },
+    [mutation],
+  );
+
+  const reset = useCallback(() => setState({ status: 'idle' }), []);
+
+  return {
+    mutate,
+    status: state.status,
+    error: state.error,
+    isPending: state.status === 'pending',
+    reset,
+  };
+}
@@ -0,0 +1,135 @@
+import { HttpError, NetworkError, ParseError } from './types';
+import type { ClientError } from './types';
+
+export type Distribution = 'uniform' | 'normal' | 'exponential';
+
+/** A fixed delay in milliseconds, or a range sampled with the given distribution (default uniform). */
+export type Delay = number | { min: number; max: number; distribution?: Distribution };
+
+export type Failure = {
+  /** Probability between 0 and 1 that a request fails instead of hitting the transport */
+  rate: number;
+  /** Which error kinds to simulate; one is picked at random. Defaults to all of them. */
+  kinds?: Array<'http' | 'network' | 'parse'>;
+  /** Status used for simulated `http` failures. Defaults to 500. */
+  status?: number;
+};
+
+export type NetworkRule = {
+  /** Path pattern such as `/users/:id` or `/posts/*`, or a RegExp tested against the path */
+  match: string | RegExp;
+  /** Only apply to this HTTP method (case-insensitive) */
+  method?: string;
+  delay?: Delay;
+  failure?: Failure;
+  timeout?: number;
+};
+
+export type NetworkConditions = {
+  delay?: Delay;
+  failure?: Failure;
+  /** Abort the request after this many milliseconds (includes the simulated delay) */
+  timeout?: number;
+  /** Per-route overrides; the first matching rule wins over the top-level settings */
+  rules?: NetworkRule[];
+  /** Source of randomness, handy for deterministic demos. Defaults to Math.random. */
+  random?: () => number;
+};
+
+export type ResolvedConditions = Pick<NetworkRule, 'delay' | 'failure' | 'timeout'>;
+
+function toPattern(match: string | RegExp) {
+  if (match instanceof RegExp) return match;
+  const source = match
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') return '.*';
+      if (segment.startsWith(':')) return '[^/]+';
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return new RegExp(`^${source}$`);
+}
+
+export function resolveConditions(
+  conditions: NetworkConditions | undefined,
+  path: string,
+  method = 'GET',
+): ResolvedConditions {
+  if (!conditions) return {};
+  const rule = conditions.rules?.find(
+    (candidate) =>
+      (!candidate.method || candidate.method.toUpperCase() === method.toUpperCase()) &&
+      toPattern(candidate.match).test(path),
+  );
+  return {
+    delay: rule?.delay ?? conditions.delay,
+    failure: rule?.failure ?? conditions.failure,
+    timeout: rule?.timeout ?? conditions.timeout,
+  };
+}
+
+// Box-Muller transform for a standard normal sample
+function normal(random: () => number) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function sampleDelay(delay: Delay | undefined, random: () => number = Math.random) {
+  if (delay === undefined) return 0;
+  if (typeof delay === 'number') return delay;
+
+  const { min, max, distribution = 'uniform' } = delay;
+  const span = max - min;
+  let value: number;
+  switch (distribution) {
+    case 'normal':
+      // ±3σ covers the range, so clamping only trims the rare outlier
+      value = min + span / 2 + normal(random) * (span / 6);
+      break;
+    case 'exponential':
+      // Mostly quick responses with a long tail toward `max`
+      value = min - Math.log(1 - random()) * (span / 3);
+      break;
+    default:
+      value = min + random() * span;
+  }
+  return Math.min(max, Math.max(min, value));
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    if (ms <= 0) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function simulateFailure(
+  failure: Failure | undefined,
+  url: string,
+  random: () => number = Math.random,
+): ClientError | undefined {
+  if (!failure || random() >= failure.rate) return undefined;
+
+  const kinds = failure.kinds?.length ? failure.kinds : (['http', 'network', 'parse'] as const);
+  const kind = kinds[Math.floor(random() * kinds.length)];
+  switch (kind) {
+    case 'http':
+      return new HttpError({ status: failure.status ?? 500, statusText: 'Simulated failure', url });
+    case 'parse':
+      return new ParseError({ message: 'Simulated malformed response body' });
+    default:
+      return new NetworkError({ message: 'Simulated network failure' });
+  }
+}
@@ -0,0 +1,189 @@
+import { useSyncExternalStore } from 'react';
+import type { Client } from './client';
+import { defaultClient } from './default-client';
+import type { Middleware } from './middleware';
+import type { QueueObserver } from './scheduler';
+
+export type NetworkEntryState = 'queued' | 'pending' | 'success' | 'error' | 'aborted';
+
+/** One attempt as the inspector shows it; retries appear as separate entries. */
+export type NetworkEntry = {
+  id: number;
+  method: string;
+  url: string;
+  path: string;
+  /** Query string including the `?`, or '' */
+  query: string;
+  /** `performance.now()` timestamps, so entries share one timeline */
+  startedAt: number;
+  /** When it began waiting for a scheduler slot, if it had to */
+  queuedAt?: number;
+  endedAt?: number;
+  duration?: number;
+  state: NetworkEntryState;
+  status?: number;
+  error?: string;
+  /** The first `previewLength` characters of the response body */
+  preview?: string;
+};
+
+export type NetworkLogOptions = {
+  /** Oldest entries are dropped past this many. Default 200. */
+  limit?: number;
+  /** Characters of each response body to keep. Default 500. */
+  previewLength?: number;
+};
+
+function messageOf(error: unknown) {
+  return error && typeof error === 'object' && 'message' in error
+    ? String(error.message)
+    : String(error);
+}
+
+/**
+ * Collect request attempts for display: `observer` sees them while they wait on the
+ * scheduler (including ones aborted before they're sent), `middleware` once they're sent.
+ */
+export function createNetworkLog({ limit = 200, previewLength = 500 }: NetworkLogOptions = {}) {
+  let entries: readonly NetworkEntry[] = [];
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  function emit() {
+    listeners.forEach((listener) => listener());
+  }
+
+  function update(id: number, next: Partial<NetworkEntry>) {
+    entries = entries.map((entry) => (entry.id === id ? { ...entry, ...next } : entry));
+    emit();
+  }
+
+  function finish(entry: NetworkEntry, next: Partial<NetworkEntry>) {
+    const endedAt = performance.now();
+    update(entry.id, { ...next, endedAt, duration: endedAt - entry.startedAt });
+  }
+
+  function add(request: Pick<NetworkEntry, 'method' | 'url' | 'path' | 'state'>) {
+    const startedAt = performance.now();
+    const entry: NetworkEntry = {
+      ...request,
+      id: nextId++,
+      query: new URL(request.url, 'http://localhost').search,
+      startedAt,
+      ...(request.state === 'queued' && { queuedAt: startedAt }),
+    };
+    entries = [...entries, entry].slice(-limit);
+    emit();
+    return entry;
+  }
+
+  // Attempts that just got their slot, by method and url, waiting for the middleware to claim them
+  const sending = new Map<string, NetworkEntry[]>();
+
+  const observer: QueueObserver = ({ method, url, path }) => {
+    const entry = add({ method, url, path, state: 'queued' });
+    return {
+      started() {
+        const key = `${method} ${url}`;
+        sending.set(key, [...(sending.get(key) ?? []), entry]);
+      },
+      dropped(reason) {
+        finish(entry, { state: 'aborted', error: messageOf(reason) });
+      },
+    };
+  };
+
+  // The entry queued for this attempt, or a new one when it never waited on the scheduler
+  function claim(method: string, url: string, path: string) {
+    const key = `${method} ${url}`;
+    const [queued, ...rest] = sending.get(key) ?? [];
+    if (rest.length > 0) sending.set(key, rest);
+    else sending.delete(key);
+    if (!queued) return add({ method, url, path, state: 'pending' });
+    const started = { ...queued, state: 'pending' as const, startedAt: performance.now() };
+    update(queued.id, started);
+    return started;
+  }
+
+  const middleware: Middleware = async (ctx, next) => {
+    const entry = claim(ctx.method, ctx.url, ctx.path);
+
+    try {
+      const res = await next(ctx);
+      const preview = (await res.clone().text()).slice(0, previewLength);
+      finish(entry, { state: res.ok ? 'success' : 'error', status: res.status, preview });
+      return res;
+    } catch (error) {
+      const aborted = ctx.init.signal?.aborted ?? false;
+      finish(entry, { state: aborted ? 'aborted' : 'error', error: messageOf(error) });
+      throw error;
+    }
+  };
+
+  return {
+    middleware,
+    observer,
+    getEntries: () => entries,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear() {
+      entries = [];
+      emit();
+    },
+  };
+}
+
+export type NetworkLog = ReturnType<typeof createNetworkLog>;
+
+const logs = new WeakMap<Client, NetworkLog>();
+const attachments = new WeakMap<Client, { count: number; detach: () => void }>();
+
+/** The log for `client`. It only records while attached with `attachNetworkLog`. */
+export function getNetworkLog(client: Client = defaultClient): NetworkLog {
+  let log = logs.get(client);
+  if (!log) {
+    log = createNetworkLog();
+    logs.set(client, log);
+  }
+  return log;
+}
+
+/**
+ * Start recording `client`'s requests into its log (call it from an effect or at setup).
+ * Attaching is counted, so it keeps recording until every caller has detached again.
+ */
+export function attachNetworkLog(client: Client = defaultClient): () => void {
+  let attachment = attachments.get(client);
+  if (!attachment) {
+    const log = getNetworkLog(client);
+    const removeMiddleware = client.addMiddleware(log.middleware);
+    const stopObserving = client.observeQueue(log.observer);
+    attachment = {
+      count: 0,
+      detach: () => {
+        removeMiddleware();
+        stopObserving();
+      },
+    };
+    attachments.set(client, attachment);
+  }
+  attachment.count++;
+
+  let attached = true;
+  return () => {
+    if (!attached) return;
+    attached = false;
+    if (--attachment.count > 0) return;
+    attachment.detach();
+    attachments.delete(client);
+  };
+}
+
+/** Live entries of a network log. */
+export function useNetworkLog(log: NetworkLog): readonly NetworkEntry[] {
+  return useSyncExternalStore(log.subscribe, log.getEntries, log.getEntries);
+}
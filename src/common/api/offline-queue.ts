@@ -0,0 +1,464 @@
+import { useSyncExternalStore } from 'react';
+import type { ClientError, Id } from './types';
+import { toClientError } from './types';
+import type { CollectionRoute, ItemRoute } from './routes';
+import type {
+  CreatableRoute,
+  MutationResponse,
+  PatchBody,
+  PostBody,
+  PostResponse,
+  PutBody,
+} from './low-level';
+import type { Client } from './client';
+import { isTempId } from './mutations';
+
+/** A write waiting for connectivity. Plain JSON, so it survives a reload. */
+export type QueuedMutation = {
+  /** Stable across reloads; pass it to `resolve`, `retry` or `discard` */
+  id: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  route: CollectionRoute | ItemRoute;
+  body?: unknown;
+  /** Placeholder id a queued POST stands in for; later writes may target it */
+  tempId?: Id;
+  /** The item as it was when the PUT was made; replay checks the server still agrees */
+  base?: unknown;
+  queuedAt: number;
+  /** Replays that failed for lack of a connection */
+  attempts: number;
+  /** `conflict` pauses replay until `resolve` is called; `failed` entries are skipped */
+  status: 'queued' | 'conflict' | 'failed';
+  error?: string;
+  /** The server's copy when a PUT conflicted */
+  server?: unknown;
+};
+
+export type PersistedQueue = {
+  entries: QueuedMutation[];
+  /** Temporary id → server id for creates that have replayed */
+  ids: Record<string, number>;
+};
+
+export type QueueStorage = {
+  load(): Promise<PersistedQueue | undefined>;
+  save(queue: PersistedQueue): Promise<void>;
+};
+
+export type Connectivity = {
+  isOnline(): boolean;
+  subscribe(onChange: () => void): () => void;
+};
+
+export type MutationConflict = {
+  entry: QueuedMutation;
+  /** What the queued PUT would write */
+  local: unknown;
+  /** What the server has now */
+  server: unknown;
+};
+
+/** `overwrite` replays anyway, `discard` drops the write, `hold` waits for `resolve`. */
+export type ConflictResolution = 'overwrite' | 'discard' | 'hold';
+
+export type OfflineQueueOptions = {
+  /** Where pending writes are kept. Defaults to localStorage, or memory outside a browser. */
+  storage?: QueueStorage;
+  /** Defaults to `navigator.onLine` and the window's online/offline events */
+  connectivity?: Connectivity;
+  /** Called when a PUT's item changed on the server since it was queued. Default 'hold'. */
+  onConflict?: (conflict: MutationConflict) => ConflictResolution | Promise<ConflictResolution>;
+  /** Try again this often (ms) while writes are stuck behind a failing connection. Default 30s. */
+  retryInterval?: number;
+  /** Called when persisted writes can't be loaded and the queue starts empty, e.g. to log it */
+  onStorageError?: (error: unknown) => void;
+};
+
+export type OfflineResult<T> =
+  | { status: 'sent'; data: T }
+  | { status: 'queued'; entry: QueuedMutation };
+
+export type OfflineQueueState = {
+  entries: readonly QueuedMutation[];
+  online: boolean;
+  replaying: boolean;
+  /** False until persisted writes have been loaded */
+  ready: boolean;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Storage                                  */
+/* -------------------------------------------------------------------------- */
+
+export function memoryQueueStorage(): QueueStorage {
+  let saved: PersistedQueue | undefined;
+  return {
+    load: async () => saved,
+    save: async (queue) => {
+      saved = structuredClone(queue);
+    },
+  };
+}
+
+export function localStorageQueueStorage(key = 'api:offline-queue'): QueueStorage {
+  return {
+    load: async () => {
+      const raw = localStorage.getItem(key);
+      if (!raw) return undefined;
+      try {
+        return JSON.parse(raw) as PersistedQueue;
+      } catch (error) {
+        // The next save would overwrite these writes; keep them somewhere they can be recovered
+        const aside = `${key}:corrupt`;
+        localStorage.setItem(aside, raw);
+        localStorage.removeItem(key);
+        throw new Error(`The saved offline queue is unreadable; moved it to "${aside}"`, {
+          cause: error,
+        });
+      }
+    },
+    save: async (queue) => localStorage.setItem(key, JSON.stringify(queue)),
+  };
+}
+
+/** Keeps the queue in one IndexedDB record, for writes too large for localStorage. */
+export function indexedDbQueueStorage(name = 'api-offline-queue'): QueueStorage {
+  const STORE = 'queue';
+  let database: Promise<IDBDatabase> | undefined;
+
+  function open() {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ) {
+    const store = (await open()).transaction(STORE, mode).objectStore(STORE);
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return {
+    load: () => run<PersistedQueue | undefined>('readonly', (store) => store.get('state')),
+    save: async (queue) => {
+      await run('readwrite', (store) => store.put(queue, 'state'));
+    },
+  };
+}
+
+function defaultStorage(): QueueStorage {
+  return typeof localStorage === 'undefined' ? memoryQueueStorage() : localStorageQueueStorage();
+}
+
+export const browserConnectivity: Connectivity = {
+  isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+  subscribe(onChange) {
+    if (typeof window === 'undefined') return () => {};
+    window.addEventListener('online', onChange);
+    window.addEventListener('offline', onChange);
+    return () => {
+      window.removeEventListener('online', onChange);
+      window.removeEventListener('offline', onChange);
+    };
+  },
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    Queue                                   */
+/* -------------------------------------------------------------------------- */
+
+type Draft = Pick<QueuedMutation, 'method' | 'route' | 'body' | 'base'>;
+
+// Both sides came from the same API, so equal items serialize with the same key order
+function sameJson(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// A POST that timed out may still have reached the server, so replaying it could create a
+// duplicate. Other writes land on the same item again and are safe to repeat.
+function mayHaveLanded(method: QueuedMutation['method'], error: ClientError) {
+  return method === 'POST' && error.kind === 'network' && error.reason === 'timeout';
+}
+
+/**
+ * Offline-first writes for one client. While online with nothing queued, writes go straight
+ * through; otherwise (or when the connection drops mid-request) they're persisted and
+ * replayed in order once connectivity returns:
+ *
+ *   const queue = createOfflineQueue(client);
+ *   const result = await queue.post('/posts', { title, body, userId });
+ *   if (result.status === 'queued') showPending(result.entry);
+ *
+ * A queued POST gets a temporary id; later writes to `/posts/<tempId>` are rewritten to
+ * the server's id on replay, as are `…Id` fields in their bodies. A POST that times out is
+ * never replayed on its own: it's marked failed until `retry` sends it again.
+ */
+export function createOfflineQueue(client: Client, options: OfflineQueueOptions = {}) {
+  const {
+    storage = defaultStorage(),
+    connectivity = browserConnectivity,
+    onConflict = () => 'hold',
+    retryInterval = 30_000,
+    onStorageError = () => {},
+  } = options;
+
+  let entries: QueuedMutation[] = [];
+  let ids: Record<string, number> = {};
+  let state: OfflineQueueState = {
+    entries,
+    online: connectivity.isOnline(),
+    replaying: false,
+    ready: false,
+  };
+  const listeners = new Set<() => void>();
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let replaying: Promise<void> | undefined;
+  let nextEntry = 1;
+
+  function emit(next: Partial<OfflineQueueState>) {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener());
+  }
+
+  function commit(next: QueuedMutation[]) {
+    entries = next;
+    emit({ entries });
+    return storage.save({ entries, ids });
+  }
+
+  function update(id: string, next: Partial<QueuedMutation>) {
+    return commit(entries.map((entry) => (entry.id === id ? { ...entry, ...next } : entry)));
+  }
+
+  function remove(id: string) {
+    return commit(entries.filter((entry) => entry.id !== id));
+  }
+
+  // Temp ids restart at -1 on every page load; skip any a persisted entry still uses
+  function allocateTempId() {
+    const used = new Set(entries.map((entry) => entry.tempId));
+    let id = client.createTempId();
+    while (used.has(id) || String(id) in ids) id = client.createTempId();
+    return id;
+  }
+
+  /** The route with a replayed temp id swapped for the server's, or undefined if it's still pending */
+  function resolveRoute<R extends QueuedMutation['route']>(route: R): R | undefined {
+    const segments = route.split('/');
+    const id = Number(segments[2]);
+    if (!isTempId(id)) return route;
+    if (!(String(id) in ids)) return undefined;
+    segments[2] = String(ids[id]);
+    return segments.join('/') as R;
+  }
+
+  function resolveBody(body: unknown) {
+    if (!body || typeof body !== 'object') return body;
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        key.endsWith('Id') && typeof value === 'number' && String(value) in ids
+          ? ids[value]
+          : value,
+      ]),
+    );
+  }
+
+  function send(entry: Pick<QueuedMutation, 'method' | 'route' | 'body'>): Promise<unknown> {
+    const route = resolveRoute(entry.route) ?? entry.route;
+    const body = resolveBody(entry.body);
+    switch (entry.method) {
+      case 'POST':
+        return client.post(route as CreatableRoute, body as PostBody<CreatableRoute>, {
+          retry: false,
+        });
+      case 'PUT':
+        return client.put(route as ItemRoute, body as PutBody<ItemRoute>, { retry: false });
+      case 'PATCH':
+        return client.patch(route as ItemRoute, body as PatchBody<ItemRoute>, { retry: false });
+      case 'DELETE':
+        return client.del(route as ItemRoute, { retry: false });
+    }
+  }
+
+  function scheduleRetry() {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => void flush(), retryInterval);
+  }
+
+  // 'next' moves on to the following entry; 'stop' waits for connectivity or a resolution
+  async function replayOne(entry: QueuedMutation): Promise<'next' | 'stop'> {
+    if (!resolveRoute(entry.route)) {
+      await update(entry.id, { status: 'failed', error: 'The create it depends on failed' });
+      return 'next';
+    }
+    try {
+      if (entry.method === 'PUT' && entry.base !== undefined) {
+        const server = await client.get(resolveRoute(entry.route) as ItemRoute, { retry: false });
+        if (!sameJson(server, entry.base)) {
+          const resolution = await onConflict({ entry, local: entry.body, server });
+          if (resolution === 'discard') {
+            await remove(entry.id);
+            return 'next';
+          }
+          if (resolution === 'hold') {
+            await update(entry.id, { status: 'conflict', server });
+            return 'stop';
+          }
+        }
+      }
+
+      const data = await send(entry);
+      if (entry.tempId !== undefined) ids[entry.tempId] = (data as { id: number }).id;
+      await remove(entry.id);
+      return 'next';
+    } catch (e) {
+      const error = toClientError(e);
+      if (mayHaveLanded(entry.method, error)) {
+        await update(entry.id, {
+          status: 'failed',
+          error: `${error.message}. It may have been saved, so it isn't sent again unless retried.`,
+        });
+        return 'next';
+      }
+      if (error.kind === 'network' || error.kind === 'aborted') {
+        await update(entry.id, { attempts: entry.attempts + 1, error: error.message });
+        scheduleRetry();
+        return 'stop';
+      }
+      await update(entry.id, { status: 'failed', error: error.message });
+      return 'next';
+    }
+  }
+
+  async function replay() {
+    await ready;
+    if (!connectivity.isOnline()) return;
+    clearTimeout(retryTimer);
+    emit({ replaying: true });
+    try {
+      for (;;) {
+        const next = entries.find((entry) => entry.status !== 'failed');
+        if (!next || next.status === 'conflict') return;
+        if ((await replayOne(next)) === 'stop') return;
+      }
+    } finally {
+      emit({ replaying: false });
+    }
+  }
+
+  /** Replay queued writes now; resolves once the queue is empty or blocked again. */
+  function flush() {
+    replaying ??= replay().finally(() => {
+      replaying = undefined;
+    });
+    return replaying;
+  }
+
+  const ready = storage
+    .load()
+    .then((saved) => {
+      if (saved) {
+        entries = saved.entries;
+        ids = saved.ids;
+      }
+    })
+    .catch((error: unknown) => {
+      // Unreadable storage starts the queue empty rather than blocking every write
+      onStorageError(error);
+    })
+    .finally(() => emit({ entries, ready: true }));
+
+  void ready.then(flush);
+
+  const unsubscribe = connectivity.subscribe(() => {
+    emit({ online: connectivity.isOnline() });
+    if (state.online) void flush();
+  });
+
+  async function write<T>(draft: Draft): Promise<OfflineResult<T>> {
+    await ready;
+    const blocked = entries.some((entry) => entry.status !== 'failed');
+    // Anything queued goes first, and a write to a pending create has to wait for it
+    if (connectivity.isOnline() && !blocked && resolveRoute(draft.route)) {
+      try {
+        return { status: 'sent', data: (await send(draft)) as T };
+      } catch (e) {
+        const error = toClientError(e);
+        if (error.kind !== 'network' || mayHaveLanded(draft.method, error)) throw error;
+      }
+    }
+
+    const entry: QueuedMutation = {
+      ...draft,
+      id: `${Date.now().toString(36)}-${nextEntry++}`,
+      tempId: draft.method === 'POST' ? allocateTempId() : undefined,
+      queuedAt: Date.now(),
+      attempts: 0,
+      status: 'queued',
+    };
+    await commit([...entries, entry]);
+    if (connectivity.isOnline()) scheduleRetry();
+    return { status: 'queued', entry };
+  }
+
+  return {
+    post<P extends CreatableRoute>(path: P, body: PostBody<P>) {
+      return write<PostResponse<P>>({ method: 'POST', route: path, body });
+    },
+    /** `base` defaults to the cached item, if there is one */
+    put<P extends ItemRoute>(path: P, body: PutBody<P>, opt?: { base?: unknown }) {
+      const base = opt?.base ?? client.cache.getState(path)?.data;
+      return write<MutationResponse<P>>({ method: 'PUT', route: path, body, base });
+    },
+    patch<P extends ItemRoute>(path: P, body: PatchBody<P>) {
+      return write<MutationResponse<P>>({ method: 'PATCH', route: path, body });
+    },
+    del<P extends ItemRoute>(path: P) {
+      return write<undefined>({ method: 'DELETE', route: path });
+    },
+    flush,
+    /** Settle a held conflict and carry on replaying */
+    async resolve(id: string, resolution: Exclude<ConflictResolution, 'hold'>) {
+      if (resolution === 'discard') await remove(id);
+      else await update(id, { status: 'queued', base: undefined, server: undefined });
+      return flush();
+    },
+    /** Put a failed entry back in line */
+    async retry(id: string) {
+      await update(id, { status: 'queued', error: undefined });
+      return flush();
+    },
+    discard: remove,
+    /** The server id a temporary id turned into, once its create has replayed */
+    serverId: (tempId: Id) => ids[tempId] as Id | undefined,
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose() {
+      clearTimeout(retryTimer);
+      unsubscribe();
+    },
+  };
+}
+
+export type OfflineQueue = ReturnType<typeof createOfflineQueue>;
+
+/** Live queue status for pending badges, conflict prompts and "offline" banners. */
+export function useOfflineQueue(queue: OfflineQueue): OfflineQueueState {
+  return useSyncExternalStore(queue.subscribe, queue.getState, queue.getState);
+}
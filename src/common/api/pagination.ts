@@ -0,0 +1,109 @@
+import type { FetchInput, PageQuery } from './types';
+import type { CollectionRoute, NestedRoute } from './routes';
+import type { GetResponse, RequestHelpers } from './low-level';
+
+export type ListRoute = CollectionRoute | NestedRoute;
+
+/** `Post` for `/posts`, `Comment` for `/posts/1/comments`, … */
+export type ItemOf<P> = GetResponse<P> extends readonly (infer T)[] ? T : never;
+
+export type Page<T> = {
+  items: T[];
+  page: number;
+  limit: number;
+  /** From `X-Total-Count`; undefined when the server doesn't send it */
+  total?: number;
+  pageCount?: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  /** The same query pointed at the neighbouring page, or undefined at either end */
+  next?: PageQuery;
+  prev?: PageQuery;
+};
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+/** `<https://…?_page=2>; rel="next", <…>; rel="last"` → { next: 'https://…?_page=2', last: '…' } */
+export function parseLinkHeader(value: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!value) return links;
+  for (const part of value.split(',')) {
+    const match = /<([^>]*)>\s*;\s*rel="?([^";]+)"?/.exec(part.trim());
+    if (!match) continue;
+    match[2].split(/\s+/).forEach((rel) => (links[rel] = match[1]));
+  }
+  return links;
+}
+
+/**
+ * Describe one page from its items and response headers. `Link` decides whether there's
+ * a next page when present, then `X-Total-Count`; with neither, a full page implies more.
+ */
+export function toPage<T>(items: T[], query: PageQuery | undefined, headers: Headers): Page<T> {
+  const page = query?._page ?? 1;
+  const limit = query?._limit ?? DEFAULT_PAGE_SIZE;
+  const totalHeader = headers.get('X-Total-Count');
+  const total = totalHeader === null ? undefined : Number(totalHeader);
+  const pageCount = total === undefined ? undefined : Math.max(1, Math.ceil(total / limit));
+  const linkHeader = headers.get('Link');
+
+  let hasNext: boolean;
+  if (linkHeader) hasNext = 'next' in parseLinkHeader(linkHeader);
+  else if (pageCount !== undefined) hasNext = page < pageCount;
+  else hasNext = items.length === limit;
+  const hasPrev = page > 1;
+
+  const at = (target: number): PageQuery => ({ ...query, _page: target, _limit: limit });
+  return {
+    items,
+    page,
+    limit,
+    total,
+    pageCount,
+    hasNext,
+    hasPrev,
+    next: hasNext ? at(page + 1) : undefined,
+    prev: hasPrev ? at(page - 1) : undefined,
+  };
+}
+
+/** Page-aware reads bound to one client. See `createClient`. */
+export function createPagination({ get }: Pick<RequestHelpers, 'get'>) {
+  /** One page of a list route; `_page` defaults to 1 and `_limit` to `DEFAULT_PAGE_SIZE`. */
+  async function getPage<P extends ListRoute>(
+    path: P,
+    q?: PageQuery,
+    opt?: FetchInput,
+  ): Promise<Page<ItemOf<P>>> {
+    const query = { ...q, _page: q?._page ?? 1, _limit: q?._limit ?? DEFAULT_PAGE_SIZE };
+    let headers = new Headers();
+    const items = await get(path, {
+      ...opt,
+      q: query,
+      onResponse: (response) => (headers = response.headers),
+    });
+    return toPage(items as ItemOf<P>[], query, headers);
+  }
+
+  /**
+   * Walk a list route page by page, starting from `q`:
+   *
+   *   for await (const page of pages('/posts', { _limit: 20 })) render(page.items);
+   *
+   * Breaking out of the loop stops fetching; aborting `opt.signal` rejects the pending page.
+   */
+  async function* pages<P extends ListRoute>(
+    path: P,
+    q?: PageQuery,
+    opt?: FetchInput,
+  ): AsyncGenerator<Page<ItemOf<P>>, void> {
+    let query: PageQuery | undefined = q ?? {};
+    while (query) {
+      const page: Page<ItemOf<P>> = await getPage(path, query, opt);
+      yield page;
+      query = page.next;
+    }
+  }
+
+  return { getPage, pages };
+}
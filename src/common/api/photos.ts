@@ -1,29 +1,33 @@
-import type { PageQuery, Photo } from './types';
-import type { PhotosRoute, PhotoRoute } from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { Id, Photo, PhotoQuery } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreatePhotoBody = Omit<Photo, 'id'>;
 
-export async function listPhotos(q?: PageQuery) {
-  return get<PhotosRoute>('/photos', { q });
-}
+export function createPhotosApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listPhotos(q?: PhotoQuery) {
+    return get(routes.photos.path, { q });
+  }
 
-export async function getPhoto(id: number) {
-  return get<PhotoRoute>(`/photos/${id}` as PhotoRoute);
-}
+  async function getPhoto(id: Id) {
+    return get(routes.photos.item(id).path);
+  }
 
-export async function createPhoto(body: CreatePhotoBody) {
-  return post<PhotosRoute>('/photos', body);
-}
+  async function createPhoto(body: CreatePhotoBody) {
+    return post(routes.photos.path, body);
+  }
 
-export async function updatePhoto(id: number, body: Photo) {
-  return put<PhotoRoute>(`/photos/${id}` as PhotoRoute, body);
-}
+  async function updatePhoto(id: Id, body: Photo) {
+    return put(routes.photos.item(id).path, body);
+  }
 
-export async function patchPhoto(id: number, body: Partial<Photo>) {
-  return patch<PhotoRoute>(`/photos/${id}` as PhotoRoute, body);
-}
+  async function patchPhoto(id: Id, body: Partial<Photo>) {
+    return patch(routes.photos.item(id).path, body);
+  }
+
+  async function removePhoto(id: Id) {
+    return del(routes.photos.item(id).path);
+  }
 
-export async function removePhoto(id: number) {
-  return del<PhotoRoute>(`/photos/${id}` as PhotoRoute);
+  return { listPhotos, getPhoto, createPhoto, updatePhoto, patchPhoto, removePhoto };
 }
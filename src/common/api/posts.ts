@@ -1,33 +1,37 @@
-import type { PageQuery, Post } from './types';
-import type { PostsRoute, PostRoute, PostCommentsRoute } from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { CommentQuery, Id, Post, PostQuery } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreatePostBody = Pick<Post, 'title' | 'body' | 'userId'>;
 
-export async function listPosts(q?: PageQuery) {
-  return get<PostsRoute>('/posts', { q });
-}
+export function createPostsApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listPosts(q?: PostQuery) {
+    return get(routes.posts.path, { q });
+  }
 
-export async function getPost(id: number) {
-  return get<PostRoute>(`/posts/${id}` as PostRoute);
-}
+  async function getPost(id: Id) {
+    return get(routes.posts.item(id).path);
+  }
 
-export async function createPost(body: CreatePostBody) {
-  return post<PostsRoute>('/posts', body);
-}
+  async function createPost(body: CreatePostBody) {
+    return post(routes.posts.path, body);
+  }
 
-export async function updatePost(id: number, body: Post) {
-  return put<PostRoute>(`/posts/${id}` as PostRoute, body);
-}
+  async function updatePost(id: Id, body: Post) {
+    return put(routes.posts.item(id).path, body);
+  }
 
-export async function patchPost(id: number, body: Partial<Post>) {
-  return patch<PostRoute>(`/posts/${id}` as PostRoute, body);
-}
+  async function patchPost(id: Id, body: Partial<Post>) {
+    return patch(routes.posts.item(id).path, body);
+  }
 
-export async function removePost(id: number) {
-  return del<PostRoute>(`/posts/${id}` as PostRoute);
-}
+  async function removePost(id: Id) {
+    return del(routes.posts.item(id).path);
+  }
+
+  async function listCommentsForPost(postId: Id, q?: CommentQuery) {
+    return get(routes.posts.item(postId).comments(), { q });
+  }
 
-export async function listCommentsForPost(postId: number, q?: PageQuery) {
-  return get<PostCommentsRoute>(`/posts/${postId}/comments` as PostCommentsRoute, { q });
+  return { listPosts, getPost, createPost, updatePost, patchPost, removePost, listCommentsForPost };
 }
@@ -0,0 +1,255 @@
+import type { Transport } from './http';
+import type { Middleware } from './middleware';
+import { sleep } from './network-conditions';
+
+export type RecordedEntry = {
+  method: string;
+  url: string;
+  /** Replay lookup key: method, pathname and sorted query, e.g. `GET /posts?_limit=5` */
+  key: string;
+  /** Epoch ms when the request started */
+  startedAt: number;
+  /** How long the response took (ms), including any simulated latency */
+  duration: number;
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /** Set when `body` is base64, as HAR files store binary responses */
+  encoding?: 'base64';
+};
+
+/** The compact fixture format; `toHar`/`fromHar` convert to and from HAR 1.2. */
+export type Recording = {
+  version: 1;
+  entries: RecordedEntry[];
+};
+
+type HarHeader = { name: string; value: string };
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: -1;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text: string; encoding?: 'base64' };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+};
+
+export type Har = {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+};
+
+export type ReplayOptions = {
+  /**
+   * 'original' waits as long as the recorded response took, a number scales that
+   * (0.5 is twice as fast), and 'instant' answers immediately. Default 'original'.
+   */
+  timing?: 'original' | 'instant' | number;
+  /** Where requests with no recorded response go. Default: a 404 response. */
+  fallback?: Transport;
+};
+
+/** `GET https://host/posts?b=2&a=1` → `GET /posts?a=1&b=2` */
+export function recordingKey(method: string, url: string) {
+  const parsed = new URL(url, 'http://localhost');
+  const params = [...parsed.searchParams].sort(([a, x], [b, y]) =>
+    a === b ? x.localeCompare(y) : a.localeCompare(b),
+  );
+  const query = new URLSearchParams(params).toString();
+  return `${method.toUpperCase()} ${parsed.pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Capture every response that flows through a client as replayable fixtures:
+ *
+ *   const recorder = createRecorder();
+ *   addMiddleware(recorder.middleware);
+ *   // …use the app…
+ *   copy(JSON.stringify(recorder.toHar()));
+ *
+ * Only completed responses are recorded; failed attempts that never got one are skipped.
+ */
+export function createRecorder() {
+  let entries: RecordedEntry[] = [];
+
+  const middleware: Middleware = async (ctx, next) => {
+    const startedAt = Date.now();
+    const start = performance.now();
+    const res = await next(ctx);
+    const body = await res.clone().text();
+    entries.push({
+      method: ctx.method,
+      url: ctx.url,
+      key: recordingKey(ctx.method, ctx.url),
+      startedAt,
+      duration: performance.now() - start,
+      requestBody: typeof ctx.init.body === 'string' ? ctx.init.body : undefined,
+      status: res.status,
+      statusText: res.statusText,
+      headers: Object.fromEntries(res.headers),
+      body,
+    });
+    return res;
+  };
+
+  return {
+    middleware,
+    entries: (): readonly RecordedEntry[] => entries,
+    toJSON: (): Recording => ({ version: 1, entries: [...entries] }),
+    toHar: () => toHar({ version: 1, entries }),
+    clear() {
+      entries = [];
+    },
+  };
+}
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+export function toHar(recording: Recording): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'react-performance', version: '1' },
+      entries: recording.entries.map((entry) => ({
+        startedDateTime: new Date(entry.startedAt).toISOString(),
+        time: entry.duration,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: 'HTTP/1.1',
+          headers: [],
+          queryString: [...new URL(entry.url, 'http://localhost').searchParams].map(
+            ([name, value]) => ({ name, value }),
+          ),
+          cookies: [],
+          headersSize: -1,
+          bodySize: entry.requestBody?.length ?? 0,
+          ...(entry.requestBody !== undefined && {
+            postData: { mimeType: 'application/json', text: entry.requestBody },
+          }),
+        },
+        response: {
+          status: entry.status,
+          statusText: entry.statusText,
+          httpVersion: 'HTTP/1.1',
+          headers: toHarHeaders(entry.headers),
+          cookies: [],
+          content: {
+            size: entry.body.length,
+            mimeType: entry.headers['content-type'] ?? 'application/json',
+            text: entry.body,
+            ...(entry.encoding && { encoding: entry.encoding }),
+          },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: entry.body.length,
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.duration, receive: 0 },
+      })),
+    },
+  };
+}
+
+/** Read a HAR file, from this recorder or a browser's network panel, as a `Recording`. */
+export function fromHar(har: Har): Recording {
+  return {
+    version: 1,
+    entries: har.log.entries.map((entry) => ({
+      method: entry.request.method,
+      url: entry.request.url,
+      key: recordingKey(entry.request.method, entry.request.url),
+      startedAt: Date.parse(entry.startedDateTime),
+      duration: entry.time,
+      requestBody: entry.request.postData?.text,
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: Object.fromEntries(
+        entry.response.headers.map(({ name, value }) => [name.toLowerCase(), value]),
+      ),
+      body: entry.response.content.text ?? '',
+      ...(entry.response.content.encoding === 'base64' && { encoding: 'base64' as const }),
+    })),
+  };
+}
+
+function isHar(source: Recording | Har): source is Har {
+  return 'log' in source;
+}
+
+// Fetch refuses a body on these statuses
+const NULL_BODY = [101, 204, 205, 304];
+
+function bodyOf(entry: RecordedEntry): BodyInit | null {
+  if (NULL_BODY.includes(entry.status)) return null;
+  if (entry.encoding !== 'base64') return entry.body;
+  return Uint8Array.from(atob(entry.body), (character) => character.charCodeAt(0));
+}
+
+/**
+ * A transport that answers from a recording instead of the network. Repeated requests
+ * for the same key get the recorded responses in order, and the last one keeps repeating.
+ *
+ *   createClient({ fetch: createReplayTransport(fixture, { timing: 0.5 }) });
+ */
+export function createReplayTransport(
+  source: Recording | Har,
+  { timing = 'original', fallback }: ReplayOptions = {},
+): Transport {
+  const recording = isHar(source) ? fromHar(source) : source;
+  const queues = new Map<string, RecordedEntry[]>();
+  recording.entries.forEach((entry) => {
+    queues.set(entry.key, [...(queues.get(entry.key) ?? []), entry]);
+  });
+
+  return async (url, init) => {
+    const method = init?.method ?? 'GET';
+    const queue = queues.get(recordingKey(method, url));
+    if (!queue?.length) {
+      if (fallback) return fallback(url, init);
+      return new Response(JSON.stringify({}), { status: 404, statusText: 'Not Recorded' });
+    }
+    const entry = queue.length > 1 ? (queue.shift() as RecordedEntry) : queue[0];
+
+    const scale = timing === 'instant' ? 0 : timing === 'original' ? 1 : timing;
+    await sleep(entry.duration * scale, init?.signal ?? undefined);
+
+    const res = new Response(bodyOf(entry), {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    });
+    Object.defineProperty(res, 'url', { value: entry.url });
+    return res;
+  };
+}
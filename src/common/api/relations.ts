@@ -0,0 +1,92 @@
+import type { Album, Comment, Photo, Post, Todo, User } from './types';
+import { generatedForeignKeys } from './generated';
+
+type Resources = {
+  posts: Post;
+  comments: Comment;
+  albums: Album;
+  photos: Photo;
+  todos: Todo;
+  users: User;
+};
+
+type Parents = { post: Post; album: Album; user: User };
+
+/** Child collections `_embed` can attach to an item (`/posts?_embed=comments`). */
+export const EMBEDS = {
+  posts: ['comments'],
+  comments: [],
+  albums: ['photos'],
+  photos: [],
+  todos: [],
+  users: ['albums', 'todos', 'posts'],
+} as const satisfies Record<keyof Resources, readonly (keyof Resources)[]>;
+
+/** Parent records `_expand` can attach to an item (`/posts?_expand=user` adds `user`). */
+export const EXPANDS = {
+  posts: ['user'],
+  comments: ['post'],
+  albums: ['user'],
+  photos: ['album'],
+  todos: ['user'],
+  users: [],
+} as const satisfies Record<keyof Resources, readonly (keyof Parents)[]>;
+
+/**
+ * The field a parent's nested lists filter by (`/users/1/posts` → `userId`), generated
+ * resources included. Don't derive it from the route: plurals and kebab-case don't round-trip.
+ */
+export const FOREIGN_KEYS: Readonly<Record<string, string>> = {
+  users: 'userId',
+  posts: 'postId',
+  albums: 'albumId',
+  ...generatedForeignKeys,
+};
+
+export type ResourceKey = keyof Resources;
+
+/** `/posts`, `/posts/1` → 'posts'; `/users/1/todos` → 'todos' */
+export type ResourceOfRoute<P> = P extends `/${string}/${number}/${infer Child}`
+  ? Child
+  : P extends `/${infer Name}/${number}`
+    ? Name
+    : P extends `/${infer Name}`
+      ? Name
+      : never;
+
+export type Embeddable<P> =
+  ResourceOfRoute<P> extends ResourceKey ? (typeof EMBEDS)[ResourceOfRoute<P>][number] : never;
+
+export type Expandable<P> =
+  ResourceOfRoute<P> extends ResourceKey ? (typeof EXPANDS)[ResourceOfRoute<P>][number] : never;
+
+export type RelationOpt<E extends string = never, X extends string = never> = {
+  /** Attach child collections, e.g. `['comments']` on posts */
+  embed?: readonly E[];
+  /** Attach parent records, e.g. `['user']` on posts and todos */
+  expand?: readonly X[];
+};
+
+type Join<T, E extends string, X extends string> = T & {
+  [K in E & ResourceKey]: Resources[K][];
+} & { [K in X & keyof Parents]: Parents[K] };
+
+/** A response with the requested relations joined onto every item; unchanged without any. */
+export type Joined<R, E extends string, X extends string> = [E | X] extends [never]
+  ? R
+  : R extends readonly (infer T)[]
+    ? Join<T, E, X>[]
+    : Join<R, E, X>;
+
+/** Fold `embed`/`expand` into the query string JSONPlaceholder understands. */
+export function withRelations<Q extends Record<string, unknown> | undefined>(
+  q: Q,
+  opt?: RelationOpt<string, string>,
+): Q | Record<string, unknown> {
+  if (!opt?.embed?.length && !opt?.expand?.length) return q;
+  return {
+    ...q,
+    _embed: opt.embed?.length ? opt.embed : undefined,
+    _expand: opt.expand?.length ? opt.expand : undefined,
+  };
+}
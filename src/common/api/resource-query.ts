@@ -0,0 +1,108 @@
+import type { ResourceQuery } from './types';
+import { DEFAULT_PAGE_SIZE } from './pagination';
+
+type Row = Record<string, unknown>;
+type AnyQuery = Record<string, unknown>;
+
+const OPERATOR = /^(.+)_(gte|lte|ne|like)$/;
+const PAGINATION = ['_page', '_limit', '_start', '_end', '_sort', '_order', '_embed', '_expand'];
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+// Query strings carry everything as text; compare in the field's own type
+function coerce(actual: unknown, expected: unknown) {
+  if (typeof actual === 'number') return Number(expected);
+  if (typeof actual === 'boolean') return expected === true || expected === 'true';
+  return String(expected);
+}
+
+function compare(a: unknown, b: unknown) {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Full-text search looks through nested objects too (a user's address, company, …)
+function containsText(value: unknown, needle: string): boolean {
+  if (typeof value === 'string') return value.toLowerCase().includes(needle);
+  if (value && typeof value === 'object') {
+    return Object.values(value).some((nested) => containsText(nested, needle));
+  }
+  return false;
+}
+
+// `_like` takes a regular expression; input that isn't one matches as plain text instead
+function likePattern(value: unknown) {
+  const source = String(value);
+  try {
+    return new RegExp(source, 'i');
+  } catch {
+    return new RegExp(source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
+
+function matchesFilter(record: Row, key: string, expected: unknown) {
+  const operator = OPERATOR.exec(key);
+  const field = operator ? operator[1] : key;
+  const actual = record[field];
+
+  switch (operator?.[2]) {
+    case 'gte':
+      return compare(actual, coerce(actual, expected)) >= 0;
+    case 'lte':
+      return compare(actual, coerce(actual, expected)) <= 0;
+    case 'ne':
+      return toList(expected).every((value) => actual !== coerce(actual, value));
+    case 'like':
+      return toList(expected).some((value) => likePattern(value).test(String(actual)));
+    default:
+      return toList(expected).some((value) => actual === coerce(actual, value));
+  }
+}
+
+/**
+ * Whether `item` passes a list query's filters, the same way the server decides:
+ * equality (any of an array), `_gte`/`_lte`/`_ne`/`_like` and `q`. Sorting and
+ * pagination keys are ignored.
+ */
+export function matchesQuery<T>(item: T, query: ResourceQuery<T> = {}): boolean {
+  const record = item as Row;
+  return Object.entries(query as AnyQuery).every(([key, expected]) => {
+    if (expected === undefined || PAGINATION.includes(key)) return true;
+    if (key === 'q') return containsText(record, String(expected).toLowerCase());
+    return matchesFilter(record, key, expected);
+  });
+}
+
+/** A sorted copy by `_sort`/`_order`; unsorted queries keep the original order. */
+export function sortByQuery<T>(items: readonly T[], query: ResourceQuery<T> = {}): T[] {
+  const { _sort: field, _order: order } = query as AnyQuery;
+  if (typeof field !== 'string') return [...items];
+  const direction = order === 'desc' ? -1 : 1;
+  return [...items].sort((a, b) => compare((a as Row)[field], (b as Row)[field]) * direction);
+}
+
+/**
+ * Run a list query in memory: filter, sort, then paginate (`_page`/`_limit` or
+ * `_start`/`_end`/`_limit`). Handy for answering a narrower query from a cached list:
+ *
+ *   const todos = client.cache.getState<Todo[]>('/todos')?.data ?? [];
+ *   applyQuery(todos, { completed: false, title_like: '^buy', _sort: 'title' });
+ */
+export function applyQuery<T>(items: readonly T[], query: ResourceQuery<T> = {}): T[] {
+  const sorted = sortByQuery(
+    items.filter((item) => matchesQuery(item, query)),
+    query,
+  );
+  const { _page: page, _limit: limit, _start: start, _end: end } = query as AnyQuery;
+  const size = limit === undefined ? undefined : Number(limit);
+
+  if (page !== undefined) {
+    const pageSize = size ?? DEFAULT_PAGE_SIZE;
+    return sorted.slice((Number(page) - 1) * pageSize, Number(page) * pageSize);
+  }
+  const from = start === undefined ? 0 : Number(start);
+  const to = end !== undefined ? Number(end) : size !== undefined ? from + size : undefined;
+  return sorted.slice(from, to);
+}
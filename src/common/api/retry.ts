@@ -0,0 +1,91 @@
+import type { ClientError } from './types';
+
+export type RetryContext = {
+  error: ClientError;
+  /** The attempt that just failed, starting at 1 */
+  attempt: number;
+  method: string;
+};
+
+export type RetryPolicy = {
+  /** Total attempts including the first one. 1 disables retries. */
+  attempts: number;
+  /** Delay before the first retry (ms). Default 300. */
+  baseDelay?: number;
+  /** Upper bound for any single backoff (ms). Default 10s. */
+  maxDelay?: number;
+  /** Multiplier applied per attempt. Default 2. */
+  factor?: number;
+  /**
+   * 'full' picks anywhere in [0, backoff], 'equal' in [backoff/2, backoff], 'none' uses the
+   * exact backoff. Default 'full', which spreads retries from many clients the most.
+   */
+  jitter?: 'full' | 'equal' | 'none';
+  /** Decide whether a failure is worth another attempt. Defaults to `isRetryable`. */
+  retryOn?: (context: RetryContext) => boolean;
+  /** Wait as long as the server's `Retry-After` asks (capped by maxDelay). Default true. */
+  respectRetryAfter?: boolean;
+};
+
+export const NO_RETRY: RetryPolicy = { attempts: 1 };
+
+const IDEMPOTENT = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * Default predicate: retry dropped connections and 408/429/5xx responses, but only for
+ * idempotent methods. Parse and validation errors won't fix themselves on a second try.
+ */
+export function isRetryable({ error, method }: RetryContext) {
+  if (!IDEMPOTENT.includes(method.toUpperCase())) return false;
+  if (error.kind === 'network') return true;
+  if (error.kind === 'http') {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return false;
+}
+
+/** Milliseconds from a `Retry-After` header, which is either delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function backoffDelay(
+  policy: RetryPolicy,
+  context: RetryContext,
+  random: () => number = Math.random,
+) {
+  const {
+    baseDelay = 300,
+    maxDelay = 10_000,
+    factor = 2,
+    jitter = 'full',
+    respectRetryAfter = true,
+  } = policy;
+
+  if (
+    respectRetryAfter &&
+    context.error.kind === 'http' &&
+    context.error.retryAfter !== undefined
+  ) {
+    return Math.min(maxDelay, context.error.retryAfter);
+  }
+
+  const backoff = Math.min(maxDelay, baseDelay * factor ** (context.attempt - 1));
+  switch (jitter) {
+    case 'none':
+      return backoff;
+    case 'equal':
+      return backoff / 2 + random() * (backoff / 2);
+    default:
+      return random() * backoff;
+  }
+}
+
+export function shouldRetry(policy: RetryPolicy, context: RetryContext) {
+  if (context.attempt >= policy.attempts) return false;
+  return (policy.retryOn ?? isRetryable)(context);
+}
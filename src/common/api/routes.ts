@@ -1,5 +1,12 @@
 // Route template literal types for JSONPlaceholder
 
+import type { Id } from './types';
+import type {
+  GeneratedCollectionRoute,
+  GeneratedItemRoute,
+  GeneratedNestedRoute,
+} from './generated';
+
 export type PostsRoute = '/posts';
 export type PostRoute = `/posts/${number}`;
 export type PostCommentsRoute = `/posts/${number}/comments`;
@@ -29,15 +36,114 @@ export type CollectionRoute =
   | AlbumsRoute
   | PhotosRoute
   | TodosRoute
-  | UsersRoute;
+  | UsersRoute
+  | GeneratedCollectionRoute;
 
-export type ItemRoute = PostRoute | CommentRoute | AlbumRoute | PhotoRoute | TodoRoute | UserRoute;
+export type ItemRoute =
+  | PostRoute
+  | CommentRoute
+  | AlbumRoute
+  | PhotoRoute
+  | TodoRoute
+  | UserRoute
+  | GeneratedItemRoute;
 
 export type NestedRoute =
   | PostCommentsRoute
   | AlbumPhotosRoute
   | UserAlbumsRoute
   | UserTodosRoute
-  | UserPostsRoute;
+  | UserPostsRoute
+  | GeneratedNestedRoute;
 
 export type AnyRoute = CollectionRoute | ItemRoute | NestedRoute;
+
+/* -------------------------------------------------------------------------- */
+/*                                Route builder                               */
+/* -------------------------------------------------------------------------- */
+
+// Number literals with a fractional part (`1.5`) are rejected; wide `number` is checked at runtime
+type Integer<N extends number> = `${N}` extends `${string}.${string}` ? never : N;
+
+/**
+ * Brand a number as an `Id`. Literal fractions fail to compile, and anything that isn't
+ * a positive integer at runtime throws, so a bad id never reaches a URL.
+ */
+export function toId<N extends number>(value: Integer<N>): Id {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new RangeError(`Expected a positive integer id, received ${value}`);
+  }
+  return value as number as Id;
+}
+
+type Item<R, Nested = unknown> = { path: R } & Nested;
+
+export type RouteBuilder = {
+  posts: {
+    path: PostsRoute;
+    item: (id: Id) => Item<PostRoute, { comments: () => PostCommentsRoute }>;
+  };
+  comments: { path: CommentsRoute; item: (id: Id) => Item<CommentRoute> };
+  albums: {
+    path: AlbumsRoute;
+    item: (id: Id) => Item<AlbumRoute, { photos: () => AlbumPhotosRoute }>;
+  };
+  photos: { path: PhotosRoute; item: (id: Id) => Item<PhotoRoute> };
+  todos: { path: TodosRoute; item: (id: Id) => Item<TodoRoute> };
+  users: {
+    path: UsersRoute;
+    item: (
+      id: Id,
+    ) => Item<
+      UserRoute,
+      { albums: () => UserAlbumsRoute; todos: () => UserTodosRoute; posts: () => UserPostsRoute }
+    >;
+  };
+};
+
+/**
+ * Typed paths for every JSONPlaceholder route, so nothing has to cast a template string:
+ *
+ *   routes.posts.path                    // '/posts'
+ *   routes.posts.item(id).path           // `/posts/${number}`
+ *   routes.posts.item(id).comments()     // `/posts/${number}/comments`
+ *
+ * Ids must carry the `Id` brand; use `toId` at the edges where plain numbers come in.
+ */
+export const routes: RouteBuilder = {
+  posts: {
+    path: '/posts',
+    item: (id) => ({
+      path: `/posts/${id}`,
+      comments: () => `/posts/${id}/comments`,
+    }),
+  },
+  comments: {
+    path: '/comments',
+    item: (id) => ({ path: `/comments/${id}` }),
+  },
+  albums: {
+    path: '/albums',
+    item: (id) => ({
+      path: `/albums/${id}`,
+      photos: () => `/albums/${id}/photos`,
+    }),
+  },
+  photos: {
+    path: '/photos',
+    item: (id) => ({ path: `/photos/${id}` }),
+  },
+  todos: {
+    path: '/todos',
+    item: (id) => ({ path: `/todos/${id}` }),
+  },
+  users: {
+    path: '/users',
+    item: (id) => ({
+      path: `/users/${id}`,
+      albums: () => `/users/${id}/albums`,
+      todos: () => `/users/${id}/todos`,
+      posts: () => `/users/${id}/posts`,
+    }),
+  },
+};
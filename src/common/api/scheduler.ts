@@ -0,0 +1,134 @@
+import { AbortedError } from './errors';
+import type { RequestContext } from './middleware';
+
+/**
+ * Which queued requests go first once a slot frees up. `user-visible` is for data on
+ * screen now, `prefetch` for anything speculative; equal priorities run in call order.
+ */
+export type Priority = 'user-visible' | 'normal' | 'prefetch';
+
+const RANK: Record<Priority, number> = { 'user-visible': 0, normal: 1, prefetch: 2 };
+
+export type SchedulerOptions = {
+  /** In-flight requests allowed per origin. Default 6, the usual browser limit per host. */
+  maxConcurrent?: number;
+};
+
+export type ScheduleOptions = {
+  priority?: Priority;
+  /** Aborting while still queued drops the task without ever starting it */
+  signal?: AbortSignal | null;
+};
+
+export type SchedulerStats = { active: number; queued: number };
+
+export type QueuedRequest = Pick<RequestContext, 'url' | 'path' | 'method'>;
+
+/**
+ * Sees every scheduled attempt before it waits for a slot, which is before any middleware
+ * runs. Return callbacks for when it gets its slot, or is aborted without ever being sent.
+ */
+export type QueueObserver = (request: QueuedRequest) => QueueObservation | undefined;
+
+export type QueueObservation = {
+  started?: () => void;
+  dropped?: (reason: unknown) => void;
+};
+
+type Task = {
+  rank: number;
+  start: () => void;
+};
+
+type Lane = { active: number; queue: Task[] };
+
+/**
+ * Cap concurrent work per origin and queue the rest by priority:
+ *
+ *   const scheduler = createScheduler({ maxConcurrent: 4 });
+ *   scheduler.schedule('https://api.example.com', () => fetch(url), { priority: 'prefetch' });
+ *
+ * A slot is held until the task's promise settles.
+ */
+export function createScheduler({ maxConcurrent = 6 }: SchedulerOptions = {}) {
+  const lanes = new Map<string, Lane>();
+
+  function laneFor(origin: string) {
+    let lane = lanes.get(origin);
+    if (!lane) {
+      lane = { active: 0, queue: [] };
+      lanes.set(origin, lane);
+    }
+    return lane;
+  }
+
+  function drain(origin: string, lane: Lane) {
+    while (lane.active < maxConcurrent) {
+      const next = lane.queue.shift();
+      if (!next) break;
+      next.start();
+    }
+    if (lane.active === 0 && lane.queue.length === 0) lanes.delete(origin);
+  }
+
+  function schedule<T>(
+    origin: string,
+    task: () => Promise<T>,
+    { priority = 'normal', signal }: ScheduleOptions = {},
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new AbortedError({ cause: signal.reason }));
+    const lane = laneFor(origin);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        lane.queue.splice(lane.queue.indexOf(queued), 1);
+        reject(new AbortedError({ cause: signal?.reason }));
+        drain(origin, lane);
+      };
+
+      const queued: Task = {
+        rank: RANK[priority],
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          lane.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              lane.active--;
+              drain(origin, lane);
+            });
+        },
+      };
+
+      // Insert after every task of the same or higher priority
+      const index = lane.queue.findIndex((other) => other.rank > queued.rank);
+      lane.queue.splice(index === -1 ? lane.queue.length : index, 0, queued);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      drain(origin, lane);
+    });
+  }
+
+  /** Counts for one origin, or summed across all of them */
+  function stats(origin?: string): SchedulerStats {
+    const selected = origin === undefined ? [...lanes.values()] : [lanes.get(origin)];
+    return selected.reduce<SchedulerStats>(
+      (total, lane) => ({
+        active: total.active + (lane?.active ?? 0),
+        queued: total.queued + (lane?.queue.length ?? 0),
+      }),
+      { active: 0, queued: 0 },
+    );
+  }
+
+  return { maxConcurrent, schedule, stats };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+export function originOf(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
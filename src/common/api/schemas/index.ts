@@ -6,3 +6,4 @@ export * from './photo';
 export * from './todo';
 export * from './user';
 export * from './queries';
+export * from './routes';
@@ -1,7 +1,9 @@
 import { z } from 'zod';
 
-// Record of string->primitive for filtering
-export const listQuerySchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+const queryValue = z.union([z.string(), z.number(), z.boolean()]);
+
+// Record of string->primitive (or a repeated primitive) for filtering
+export const listQuerySchema = z.record(z.string(), z.union([queryValue, z.array(queryValue)]));
 
 // PageQuery extends ListQuery with optional pagination fields; allow arbitrary filters via catchall
 export const pageQuerySchema = z
@@ -9,4 +11,41 @@ export const pageQuerySchema = z
     _page: z.number().int().positive().optional(),
     _limit: z.number().int().positive().optional(),
   })
-  .catchall(z.union([z.string(), z.number(), z.boolean()]));
+  .catchall(z.union([queryValue, z.array(queryValue)]));
+
+// Enums are strings on the wire; optional fields aren't filterable, as in `ResourceQuery<T>`
+const SCALAR_TYPES = ['string', 'number', 'boolean', 'enum'];
+const TEXT_TYPES = ['string', 'enum'];
+
+/**
+ * `pageQuerySchema` narrowed to one resource, mirroring `ResourceQuery<T>`: only that
+ * resource's scalar fields (plus their `_ne`/`_gte`/`_lte`/`_like` forms), sorting, `q` and
+ * pagination. Unknown keys are rejected, so a misspelt filter fails validation.
+ */
+export function resourceQuerySchema(item: z.ZodObject) {
+  const scalars = Object.entries(item.shape).filter(([, field]) =>
+    SCALAR_TYPES.includes(field.def.type),
+  );
+
+  const filters: Record<string, z.ZodType> = {};
+  for (const [key, field] of scalars) {
+    filters[key] = z.union([field, z.array(field)]).optional();
+    filters[`${key}_ne`] = field.optional();
+    if (field.def.type !== 'boolean') {
+      filters[`${key}_gte`] = field.optional();
+      filters[`${key}_lte`] = field.optional();
+    }
+    if (TEXT_TYPES.includes(field.def.type)) filters[`${key}_like`] = z.string().optional();
+  }
+
+  return pageQuerySchema
+    .extend({
+      _start: z.number().int().nonnegative().optional(),
+      _end: z.number().int().nonnegative().optional(),
+      _sort: z.enum(scalars.map(([key]) => key)).optional(),
+      _order: z.enum(['asc', 'desc']).optional(),
+      q: z.string().optional(),
+      ...filters,
+    })
+    .strict();
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { resourceQuerySchema } from './queries';
+
+/** Runtime schemas for one route shape, looked up by `validation.ts` */
+export type RouteSchemas = {
+  query?: z.ZodType;
+  get?: z.ZodType;
+  post?: { body: z.ZodType; res: z.ZodType };
+  put?: { body: z.ZodType; res: z.ZodType };
+  patch?: { body: z.ZodType; res: z.ZodType };
+};
+
+/** `/posts`: filtered lists and creation (the body defaults to the item without its id) */
+export const collectionSchemas = (
+  item: z.ZodObject,
+  body: z.ZodType = item.omit({ id: true }),
+) => ({
+  query: resourceQuerySchema(item),
+  get: z.array(item),
+  post: { body, res: item },
+});
+
+/** `/posts/:id`: reads, replacement and partial updates */
+export const memberSchemas = (item: z.ZodObject) => ({
+  get: item,
+  put: { body: item, res: item },
+  patch: { body: item.partial(), res: item },
+});
+
+/** `/users/:id/posts`: a parent's filtered list of children */
+export const nestedSchemas = (item: z.ZodObject) => ({
+  query: resourceQuerySchema(item),
+  get: z.array(item),
+});
@@ -0,0 +1,104 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { PageQuery, ListQuery } from './types';
+import type { AnyRoute, CollectionRoute, ItemRoute, NestedRoute } from './routes';
+import type { GetResponse } from './low-level';
+import { parseQueryKey, queryKey } from './cache';
+import type { TrackedPromise } from './cache';
+import type { Client } from './client';
+import type { Priority } from './scheduler';
+import { useClient } from './client-context';
+import { defaultClient } from './default-client';
+
+type ReadQuery = PageQuery | ListQuery | undefined;
+
+export type ResourceOptions = {
+  /** Data older than this is revalidated in the background on mount (ms). Default 30s. */
+  staleTime?: number;
+};
+
+const DEFAULT_STALE_TIME = 30_000;
+
+function read<P extends AnyRoute>(
+  client: Client,
+  path: P,
+  q: ReadQuery,
+  priority: Priority = 'user-visible',
+) {
+  return client.cache.readQuery(path, q, () => client.get(path, { q, priority }));
+}
+
+/**
+ * Start loading a resource before anything renders it (an event handler, a route
+ * loader, module scope). A later `useResource` for the same route and client reuses
+ * the request. With a `scheduler` configured, preloads queue behind on-screen reads when
+ * the origin is busy.
+ */
+export function preloadResource<P extends AnyRoute>(
+  path: P,
+  q?: ReadQuery,
+  client: Client = defaultClient,
+): TrackedPromise<GetResponse<P>> {
+  return read(client, path, q, 'prefetch');
+}
+
+function useResourcePromise<P extends AnyRoute>(
+  path: P,
+  q: ReadQuery,
+  { staleTime = DEFAULT_STALE_TIME }: ResourceOptions = {},
+) {
+  const client = useClient();
+  // Inline query objects are new every render; key everything by value instead
+  const key = queryKey(path, q);
+  const query = useMemo(() => parseQueryKey<P, ReadQuery>(key)[1], [key]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const unsubscribe = client.cache.subscribe(path, query, onChange);
+      // Revalidate stale data now that something is watching
+      client.cache
+        .fetchQuery(path, query, () => client.get(path, { q: query }), { staleTime })
+        .catch(() => {
+          // Errors reach the component through the rejected promise
+        });
+      return unsubscribe;
+    },
+    [client, path, query, staleTime],
+  );
+
+  const getSnapshot = useCallback(
+    () => client.cache.peekQuery<GetResponse<P>>(path, query),
+    [client, path, query],
+  );
+
+  const resource = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  // Nothing cached to read yet: start the request here, where Suspense expects it
+  return resource ?? read(client, path, query);
+}
+
+/**
+ * A stable promise for a single item, ready for React 19's `use()`:
+ *
+ *   const user = use(useResource('/users/1'));
+ *
+ * The component suspends until the data arrives, rejected requests reach the nearest
+ * error boundary, and later updates (mutations, invalidation) re-render without suspending.
+ * To retry after an error, `client.cache.invalidate(path)` before resetting the boundary,
+ * or let `ApiErrorBoundary` do both.
+ * Reads go through the client from `ClientContext`.
+ */
+export function useResource<P extends ItemRoute>(
+  path: P,
+  q?: ReadQuery,
+  options?: ResourceOptions,
+): TrackedPromise<GetResponse<P>> {
+  return useResourcePromise(path, q, options);
+}
+
+/** Same as `useResource`, for collection and nested list routes. */
+export function useResourceList<P extends CollectionRoute | NestedRoute>(
+  path: P,
+  q?: ReadQuery,
+  options?: ResourceOptions,
+): TrackedPromise<GetResponse<P>> {
+  return useResourcePromise(path, q, options);
+}
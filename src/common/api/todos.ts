@@ -1,29 +1,33 @@
-import type { PageQuery, Todo } from './types';
-import type { TodoRoute, TodosRoute } from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { Id, Todo, TodoQuery } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreateTodoBody = Omit<Todo, 'id'>;
 
-export async function listTodos(q?: PageQuery) {
-  return get<TodosRoute>('/todos', { q });
-}
+export function createTodosApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listTodos(q?: TodoQuery) {
+    return get(routes.todos.path, { q });
+  }
 
-export async function getTodo(id: number) {
-  return get<TodoRoute>(`/todos/${id}` as TodoRoute);
-}
+  async function getTodo(id: Id) {
+    return get(routes.todos.item(id).path);
+  }
 
-export async function createTodo(body: CreateTodoBody) {
-  return post<TodosRoute>('/todos', body);
-}
+  async function createTodo(body: CreateTodoBody) {
+    return post(routes.todos.path, body);
+  }
 
-export async function updateTodo(id: number, body: Todo) {
-  return put<TodoRoute>(`/todos/${id}` as TodoRoute, body);
-}
+  async function updateTodo(id: Id, body: Todo) {
+    return put(routes.todos.item(id).path, body);
+  }
 
-export async function patchTodo(id: number, body: Partial<Todo>) {
-  return patch<TodoRoute>(`/todos/${id}` as TodoRoute, body);
-}
+  async function patchTodo(id: Id, body: Partial<Todo>) {
+    return patch(routes.todos.item(id).path, body);
+  }
+
+  async function removeTodo(id: Id) {
+    return del(routes.todos.item(id).path);
+  }
 
-export async function removeTodo(id: number) {
-  return del<TodoRoute>(`/todos/${id}` as TodoRoute);
+  return { listTodos, getTodo, createTodo, updateTodo, patchTodo, removeTodo };
 }
@@ -1,3 +1,6 @@
+import type { RetryPolicy } from './retry';
+import type { Priority } from './scheduler';
+
 export type Brand<K, T> = K & { __brand: T };
 
 export type Id = Brand<number, 'Id'>;
@@ -60,37 +63,71 @@ export type User = {
 };
 
 // Shared query helpers (JSONPlaceholder supports simple filters)
-export type ListQuery = Record<string, string | number | boolean | undefined>;
+type QueryValue = string | number | boolean;
+/** Arrays repeat the parameter (`id=1&id=2`), which matches any of the values */
+export type ListQuery = Record<string, QueryValue | readonly QueryValue[] | undefined>;
 export type PageQuery = { _page?: number; _limit?: number } & ListQuery;
 
-export type FetchInput = {
-  signal?: AbortSignal;
-  /** additional fetch init (headers, credentials, etc.) */
-  init?: Omit<RequestInit, 'method' | 'body' | 'signal'>;
-};
+type FieldsOf<T, V> = { [K in keyof T & string]: T[K] extends V ? K : never }[keyof T & string];
 
-// Minimal error model you can exhaustively check
-export type HttpError = {
-  kind: 'http';
-  status: number;
-  statusText: string;
-  url: string;
-  bodyText?: string;
-};
+/** Top-level fields a list can be filtered and sorted by; nested objects are left out */
+export type QueryField<T> = FieldsOf<T, string | number | boolean>;
 
-export type NetworkError = {
-  kind: 'network';
-  message: string;
-};
+// Filters are typed by hand, so ids are plain numbers rather than branded `Id`s
+type QueryValueOf<V> = V extends Id ? number : V;
 
-export type ParseError = {
-  kind: 'parse';
-  message: string;
+/**
+ * A typed list query for one resource (json-server syntax): equality on its own fields
+ * (an array matches any of the values), `_gte`/`_lte`/`_ne`/`_like` operators, `q`
+ * full-text search, `_sort`/`_order` and pagination. Misspelt fields don't typecheck:
+ *
+ *   listTodos({ completed: false, title_like: 'milk', _sort: 'title' });
+ */
+export type ResourceQuery<T> = {
+  _page?: number;
+  _limit?: number;
+  _start?: number;
+  _end?: number;
+  _sort?: QueryField<T>;
+  _order?: 'asc' | 'desc';
+  /** Case-insensitive match against any string value, nested ones included */
+  q?: string;
+} & { [K in QueryField<T>]?: QueryValueOf<T[K]> | readonly QueryValueOf<T[K]>[] } & {
+  [K in QueryField<T> as `${K}_ne`]?: QueryValueOf<T[K]>;
+} & {
+  [K in FieldsOf<T, string | number> as `${K}_gte` | `${K}_lte`]?: QueryValueOf<T[K]>;
+} & {
+  /** Case-insensitive regular expression */
+  [K in FieldsOf<T, string> as `${K}_like`]?: string;
 };
 
-export type ClientError = HttpError | NetworkError | ParseError;
+export type PostQuery = ResourceQuery<Post>;
+export type CommentQuery = ResourceQuery<Comment>;
+export type AlbumQuery = ResourceQuery<Album>;
+export type PhotoQuery = ResourceQuery<Photo>;
+export type TodoQuery = ResourceQuery<Todo>;
+export type UserQuery = ResourceQuery<User>;
+
+export type FetchInput = {
+  signal?: AbortSignal;
+  /** additional fetch init (headers, credentials, etc.) */
+  init?: Omit<RequestInit, 'method' | 'body' | 'signal'>;
+  /** override the global retry policy for this call, or `false` to make a single attempt */
+  retry?: RetryPolicy | false;
+  /** `user-visible` jumps the queue when the origin is at its concurrency limit; `prefetch` waits */
+  priority?: Priority;
+};
 
-// Convenience guard for consumer error handling
-export function isClientError(e: unknown): e is ClientError {
-  return !!e && typeof e === 'object' && 'kind' in (e as Record<string, unknown>);
-}
+// Error classes live in ./errors; re-exported here so `ClientError` stays next to the data types
+export {
+  AbortedError,
+  ApiError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  ValidationError,
+  isAborted,
+  isClientError,
+  toClientError,
+} from './errors';
+export type { ClientError, ErrorCategory, ValidationIssue } from './errors';
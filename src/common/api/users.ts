@@ -1,47 +1,55 @@
-import type { PageQuery, User } from './types';
-import type {
-  UsersRoute,
-  UserRoute,
-  UserAlbumsRoute,
-  UserTodosRoute,
-  UserPostsRoute,
-} from './routes';
-import { get, post, put, patch, del } from './low-level';
+import type { AlbumQuery, Id, PostQuery, TodoQuery, User, UserQuery } from './types';
+import { routes } from './routes';
+import type { RequestHelpers } from './low-level';
 
 export type CreateUserBody = Omit<User, 'id'>;
 
-export async function listUsers(q?: PageQuery) {
-  return get<UsersRoute>('/users', { q });
-}
-
-export async function getUser(id: number) {
-  return get<UserRoute>(`/users/${id}` as UserRoute);
-}
-
-export async function createUser(body: CreateUserBody) {
-  return post<UsersRoute>('/users', body);
-}
-
-export async function updateUser(id: number, body: User) {
-  return put<UserRoute>(`/users/${id}` as UserRoute, body);
-}
-
-export async function patchUser(id: number, body: Partial<User>) {
-  return patch<UserRoute>(`/users/${id}` as UserRoute, body);
-}
-
-export async function removeUser(id: number) {
-  return del<UserRoute>(`/users/${id}` as UserRoute);
-}
-
-export async function listAlbumsForUser(userId: number, q?: PageQuery) {
-  return get<UserAlbumsRoute>(`/users/${userId}/albums` as UserAlbumsRoute, { q });
-}
-
-export async function listTodosForUser(userId: number, q?: PageQuery) {
-  return get<UserTodosRoute>(`/users/${userId}/todos` as UserTodosRoute, { q });
-}
-
-export async function listPostsForUser(userId: number, q?: PageQuery) {
-  return get<UserPostsRoute>(`/users/${userId}/posts` as UserPostsRoute, { q });
+export function createUsersApi({ get, post, put, patch, del }: RequestHelpers) {
+  async function listUsers(q?: UserQuery) {
+    return get(routes.users.path, { q });
+  }
+
+  async function getUser(id: Id) {
+    return get(routes.users.item(id).path);
+  }
+
+  async function createUser(body: CreateUserBody) {
+    return post(routes.users.path, body);
+  }
+
+  async function updateUser(id: Id, body: User) {
+    return put(routes.users.item(id).path, body);
+  }
+
+  async function patchUser(id: Id, body: Partial<User>) {
+    return patch(routes.users.item(id).path, body);
+  }
+
+  async function removeUser(id: Id) {
+    return del(routes.users.item(id).path);
+  }
+
+  async function listAlbumsForUser(userId: Id, q?: AlbumQuery) {
+    return get(routes.users.item(userId).albums(), { q });
+  }
+
+  async function listTodosForUser(userId: Id, q?: TodoQuery) {
+    return get(routes.users.item(userId).todos(), { q });
+  }
+
+  async function listPostsForUser(userId: Id, q?: PostQuery) {
+    return get(routes.users.item(userId).posts(), { q });
+  }
+
+  return {
+    listUsers,
+    getUser,
+    createUser,
+    updateUser,
+    patchUser,
+    removeUser,
+    listAlbumsForUser,
+    listTodosForUser,
+    listPostsForUser,
+  };
 }
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import {
+  albumSchema,
+  collectionSchemas,
+  commentSchema,
+  memberSchemas,
+  nestedSchemas,
+  photoSchema,
+  postSchema,
+  todoSchema,
+  userSchema,
+} from './schemas';
+import type { RouteSchemas } from './schemas';
+import { ValidationError } from './types';
+import { generatedRouteSchemas } from './generated';
+import type { GeneratedRoutePattern } from './generated';
+import type { RelationOpt, ResourceKey } from './relations';
+
+type Mutation = 'POST' | 'PUT' | 'PATCH';
+type Method = 'GET' | Mutation;
+
+const MUTATION_KEYS = { POST: 'post', PUT: 'put', PATCH: 'patch' } as const;
+
+// Runtime counterpart of the route maps in low-level.ts, keyed by route shape
+export type RoutePattern =
+  | '/posts'
+  | '/posts/:id'
+  | '/posts/:id/comments'
+  | '/comments'
+  | '/comments/:id'
+  | '/albums'
+  | '/albums/:id'
+  | '/albums/:id/photos'
+  | '/photos'
+  | '/photos/:id'
+  | '/todos'
+  | '/todos/:id'
+  | '/users'
+  | '/users/:id'
+  | '/users/:id/albums'
+  | '/users/:id/todos'
+  | '/users/:id/posts'
+  | GeneratedRoutePattern;
+
+export const routeSchemas = {
+  '/posts': collectionSchemas(
+    postSchema,
+    postSchema.pick({ title: true, body: true, userId: true }),
+  ),
+  '/posts/:id': memberSchemas(postSchema),
+  '/posts/:id/comments': nestedSchemas(commentSchema),
+  '/comments': collectionSchemas(commentSchema),
+  '/comments/:id': memberSchemas(commentSchema),
+  '/albums': collectionSchemas(albumSchema),
+  '/albums/:id': memberSchemas(albumSchema),
+  '/albums/:id/photos': nestedSchemas(photoSchema),
+  '/photos': collectionSchemas(photoSchema),
+  '/photos/:id': memberSchemas(photoSchema),
+  '/todos': collectionSchemas(todoSchema),
+  '/todos/:id': memberSchemas(todoSchema),
+  '/users': collectionSchemas(userSchema),
+  '/users/:id': memberSchemas(userSchema),
+  '/users/:id/albums': nestedSchemas(albumSchema),
+  '/users/:id/todos': nestedSchemas(todoSchema),
+  '/users/:id/posts': nestedSchemas(postSchema),
+  ...generatedRouteSchemas,
+} satisfies Record<RoutePattern, RouteSchemas>;
+
+/** `/posts/12/comments` → `/posts/:id/comments` */
+export function toRoutePattern(path: string): RoutePattern | undefined {
+  const pattern = path.replace(/\/\d+(?=\/|$)/g, '/:id');
+  return pattern in routeSchemas ? (pattern as RoutePattern) : undefined;
+}
+
+function schemasFor(path: string): RouteSchemas | undefined {
+  const pattern = toRoutePattern(path);
+  return pattern ? routeSchemas[pattern] : undefined;
+}
+
+function check(
+  schema: z.ZodType | undefined,
+  value: unknown,
+  source: ValidationError['source'],
+  method: Method,
+  url: string,
+) {
+  if (!schema) return;
+  const result = schema.safeParse(value);
+  if (result.success) return;
+
+  throw new ValidationError({
+    source,
+    message: `${method} ${url}: ${source} did not match the expected schema`,
+    url,
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.filter((key) => typeof key !== 'symbol'),
+      message: issue.message,
+    })),
+  });
+}
+
+// Query values left undefined are dropped by `withQuery`, so ignore them here too
+function definedEntries(q: Record<string, unknown>) {
+  return Object.fromEntries(Object.entries(q).filter(([, value]) => value !== undefined));
+}
+
+export function validateQuery(path: string, q: Record<string, unknown> | undefined, url: string) {
+  if (q) check(schemasFor(path)?.query, definedEntries(q), 'query', 'GET', url);
+}
+
+export function validateBody(path: string, method: Mutation, body: unknown, url: string) {
+  check(schemasFor(path)?.[MUTATION_KEYS[method]]?.body, body, 'body', method, url);
+}
+
+const resourceSchemas: Record<ResourceKey, z.ZodObject> = {
+  posts: postSchema,
+  comments: commentSchema,
+  albums: albumSchema,
+  photos: photoSchema,
+  todos: todoSchema,
+  users: userSchema,
+};
+
+// The route's GET schema with `_embed`/`_expand` relations added to each item, or
+// undefined for generated resources, which have no relations to add
+function joinedSchema(pattern: RoutePattern, relations: RelationOpt<string, string>) {
+  const segments = pattern.split('/').filter(Boolean);
+  const isItem = segments[segments.length - 1] === ':id';
+  const resource = isItem ? segments[segments.length - 2] : segments[segments.length - 1];
+  if (!(resource in resourceSchemas)) return undefined;
+  const shape: Record<string, z.ZodType> = {};
+  relations.embed?.forEach((child) => {
+    if (child in resourceSchemas) shape[child] = z.array(resourceSchemas[child as ResourceKey]);
+  });
+  relations.expand?.forEach((parent) => {
+    const schema = resourceSchemas[`${parent}s` as ResourceKey];
+    if (schema) shape[parent] = schema;
+  });
+  const item = resourceSchemas[resource as ResourceKey].extend(shape);
+  return isItem ? item : z.array(item);
+}
+
+export function validateResponse<T>(
+  path: string,
+  method: Method,
+  data: unknown,
+  url: string,
+  relations?: RelationOpt<string, string>,
+): T {
+  const pattern = toRoutePattern(path);
+  const schemas: RouteSchemas | undefined = pattern ? routeSchemas[pattern] : undefined;
+  const joined =
+    method === 'GET' && pattern && (relations?.embed?.length || relations?.expand?.length);
+  const schema =
+    (joined ? joinedSchema(pattern, relations) : undefined) ??
+    (method === 'GET' ? schemas?.get : schemas?.[MUTATION_KEYS[method]]?.res);
+  check(schema, data, 'response', method, url);
+  // Keep the payload untouched: zod would strip fields the schema doesn't know about
+  return data as T;
+}
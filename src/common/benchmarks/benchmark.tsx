@@ -0,0 +1,142 @@
+import { type ComponentType, act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { within } from '@testing-library/dom';
+import { type UserEvent, userEvent } from '@testing-library/user-event';
+import { describe, expect, it } from 'vitest';
+import { renderStore, withRenderTracker } from '../instrumentation';
+import type { VariantResult } from './report';
+
+/** The component to mount, or one that needs a URL first (a lab's `?variant=`) */
+export type BenchmarkVariant = ComponentType | { component: ComponentType; url?: string };
+
+export type BenchmarkContext = {
+  /** Queries scoped to the mounted application: `screen.getByLabelText('Search Pokemon')` */
+  screen: ReturnType<typeof within>;
+  user: UserEvent;
+  container: HTMLElement;
+};
+
+/** Upper bounds a variant has to stay within; counts only, since timings vary by machine */
+export type BenchmarkBudget = {
+  commits?: number;
+  renders?: Record<string, number>;
+};
+
+export type BenchmarkOptions = {
+  variants: Record<string, BenchmarkVariant>;
+  /** The scripted interaction, run once the application has mounted */
+  interact: (context: BenchmarkContext) => Promise<void>;
+  budgets?: Record<string, BenchmarkBudget>;
+  /** Per variant, in milliseconds. Default 60 seconds. */
+  timeout?: number;
+};
+
+/** The name the mounted application's renders and commits are recorded under */
+const ROOT = 'Application';
+
+// Two decimals: finer than that is noise, and the report stays readable
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+/** Every variant of a lab, mounted through the application's own switcher */
+export function labVariants(
+  lab: { variants: readonly { id: string }[] },
+  component: ComponentType,
+) {
+  return Object.fromEntries(
+    lab.variants.map(({ id }): [string, BenchmarkVariant] => [
+      id,
+      { component, url: `?variant=${encodeURIComponent(id)}` },
+    ]),
+  );
+}
+
+async function measure(
+  scenario: string,
+  variant: string,
+  definition: BenchmarkVariant,
+  interact: BenchmarkOptions['interact'],
+): Promise<VariantResult> {
+  const { component, url } =
+    typeof definition === 'object' && 'component' in definition
+      ? definition
+      : { component: definition, url: undefined };
+  window.history.replaceState(null, '', url ?? '/');
+
+  const Tracked = withRenderTracker(component, { name: ROOT });
+  const container = document.body.appendChild(document.createElement('div'));
+  const root = createRoot(container);
+
+  try {
+    await act(async () => {
+      root.render(<Tracked />);
+    });
+    // Only the interaction is measured, not the first mount
+    renderStore.reset();
+
+    const user = userEvent.setup({ delay: null });
+    const start = performance.now();
+    await interact({ screen: within(container), user, container });
+    const scriptingTime = performance.now() - start;
+
+    const stats = renderStore.getAll();
+    const application = stats[ROOT];
+    return {
+      scenario,
+      variant,
+      scriptingTime: round(scriptingTime),
+      commits: {
+        count: application?.commits ?? 0,
+        total: round(application?.totalCommitDuration ?? 0),
+        max: round(application?.maxCommitDuration ?? 0),
+      },
+      renders: Object.fromEntries(
+        Object.values(stats)
+          .filter(({ renders }) => renders > 0)
+          .map(({ name, renders }) => [name, renders]),
+      ),
+    };
+  } finally {
+    act(() => root.unmount());
+    container.remove();
+  }
+}
+
+/**
+ * Mount each variant, replay the same interaction against it and record its renders,
+ * commit durations and scripting time for the JSON report. Budgets fail the test when a
+ * variant renders more than it should, so a lost `memo` or unstable callback is caught.
+ *
+ *   benchmark('pokamoka: search for "pika"', {
+ *     variants: { unoptimized: Application },
+ *     interact: ({ screen, user }) => typeInto(user, screen.getByLabelText('Search Pokemon'), 'pika'),
+ *   });
+ *
+ * Every step runs inside `act`, so React commits each update before the next one, deferred
+ * and transition renders included. Counts are what rendering every update costs, not
+ * what a browser that skips stale renders would do.
+ */
+export function benchmark(
+  scenario: string,
+  { variants, interact, budgets = {}, timeout = 60_000 }: BenchmarkOptions,
+) {
+  describe(scenario, () => {
+    for (const [variant, definition] of Object.entries(variants)) {
+      it(
+        variant,
+        async ({ task }) => {
+          const result = await measure(scenario, variant, definition, interact);
+          task.meta.benchmarkResult = result;
+
+          const budget = budgets[variant];
+          if (budget?.commits !== undefined) {
+            expect(result.commits.count, 'commits').toBeLessThanOrEqual(budget.commits);
+          }
+          for (const [name, limit] of Object.entries(budget?.renders ?? {})) {
+            expect(result.renders[name] ?? 0, `renders of ${name}`).toBeLessThanOrEqual(limit);
+          }
+        },
+        timeout,
+      );
+    }
+  });
+}
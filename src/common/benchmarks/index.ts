@@ -0,0 +1,10 @@
+export { benchmark, labVariants } from './benchmark';
+export type {
+  BenchmarkBudget,
+  BenchmarkContext,
+  BenchmarkOptions,
+  BenchmarkVariant,
+} from './benchmark';
+export { dragRange, replaceValue, step, typeInto } from './interactions';
+export { createReport } from './report';
+export type { BenchmarkReport, CommitSummary, VariantResult } from './report';
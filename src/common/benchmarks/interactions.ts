@@ -0,0 +1,50 @@
+import { act } from 'react';
+import { fireEvent } from '@testing-library/dom';
+import type { UserEvent } from '@testing-library/user-event';
+
+/** Run one step of an interaction and let React finish everything it scheduled */
+export async function step(action: () => unknown) {
+  await act(async () => {
+    await action();
+  });
+}
+
+/**
+ * Type into a field one key at a time. React commits after every keystroke, the way it
+ * would for someone typing at a normal pace.
+ */
+export async function typeInto(user: UserEvent, element: Element, text: string) {
+  await step(() => user.click(element));
+  for (const character of text) {
+    await step(() => user.keyboard(character));
+  }
+}
+
+/** Clear a field, then type its new value */
+export async function replaceValue(user: UserEvent, element: Element, text: string) {
+  await step(() => user.clear(element));
+  await typeInto(user, element, text);
+}
+
+/**
+ * Drag a range input to `to`, passing through every step on the way like a pointer would.
+ * Defaults to the input's own `step`.
+ */
+export async function dragRange(
+  element: Element,
+  to: number,
+  { step: increment }: { step?: number } = {},
+) {
+  if (!(element instanceof HTMLInputElement)) throw new Error('dragRange needs an <input>');
+  const stepSize = increment ?? (Number(element.step) || 1);
+  const from = Number(element.value);
+  const delta = to >= from ? stepSize : -stepSize;
+  const steps = Math.floor(Math.abs(to - from) / stepSize);
+
+  await step(() => fireEvent.mouseDown(element));
+  for (let index = 1; index <= steps; index++) {
+    const value = String(from + index * delta);
+    await step(() => fireEvent.change(element, { target: { value } }));
+  }
+  await step(() => fireEvent.mouseUp(element));
+}
@@ -0,0 +1,41 @@
+export type CommitSummary = {
+  count: number;
+  /** Milliseconds React spent rendering, summed over every commit */
+  total: number;
+  max: number;
+};
+
+/** What one variant did during one scenario's interaction */
+export type VariantResult = {
+  scenario: string;
+  variant: string;
+  /** Wall-clock time of the whole interaction, React's work and the DOM's included */
+  scriptingTime: number;
+  /** Commits of the mounted application, timed by `<Profiler>` */
+  commits: CommitSummary;
+  /** Committed renders by name: `Application`, plus anything reporting via `useRenderTracker` */
+  renders: Record<string, number>;
+};
+
+export type BenchmarkReport = {
+  createdAt: string;
+  scenarios: { name: string; variants: Omit<VariantResult, 'scenario'>[] }[];
+};
+
+declare module 'vitest' {
+  interface TaskMeta {
+    benchmarkResult?: VariantResult;
+  }
+}
+
+/** Group results by scenario, in the order they ran */
+export function createReport(results: readonly VariantResult[]): BenchmarkReport {
+  const scenarios = new Map<string, Omit<VariantResult, 'scenario'>[]>();
+  for (const { scenario, ...result } of results) {
+    scenarios.set(scenario, [...(scenarios.get(scenario) ?? []), result]);
+  }
+  return {
+    createdAt: new Date().toISOString(),
+    scenarios: [...scenarios].map(([name, variants]) => ({ name, variants })),
+  };
+}
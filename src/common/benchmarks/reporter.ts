@@ -0,0 +1,34 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { Reporter } from 'vitest/node';
+import { type VariantResult, createReport } from './report';
+
+export type BenchmarkReporterOptions = {
+  /** Where the JSON report is written. Default `test-output/benchmark-report.json`. */
+  outputFile?: string;
+};
+
+/**
+ * Collect what every `benchmark()` test measured and write it as one JSON report once the
+ * run ends, failed runs included, so a regression's numbers are there to look at.
+ */
+export function createBenchmarkReporter({
+  outputFile = 'test-output/benchmark-report.json',
+}: BenchmarkReporterOptions = {}): Reporter {
+  return {
+    async onTestRunEnd(testModules) {
+      const results: VariantResult[] = [];
+      for (const testModule of testModules) {
+        for (const test of testModule.children.allTests()) {
+          const { benchmarkResult } = test.meta();
+          if (benchmarkResult) results.push(benchmarkResult);
+        }
+      }
+      if (results.length === 0) return;
+
+      const path = resolve(outputFile);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(createReport(results), null, 2)}\n`);
+    },
+  };
+}
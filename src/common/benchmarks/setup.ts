@@ -0,0 +1,2 @@
+// Tell React it's running under a test harness, so `act` flushes updates and effects
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
@@ -0,0 +1,123 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { Suspense, use, useState } from 'react';
+import { ApiErrorBoundary } from './api-error-boundary';
+import { Button } from '../button/button';
+import { ClientContext, createClient, createMockFetch, useResourceList } from '../../api';
+
+// The first request fails with `status`; everything after it, including the retry, succeeds
+function createFlakyClient(status: number) {
+  let failures = 1;
+  return createClient({
+    fetch: createMockFetch(),
+    middleware: [
+      async (request, next) => {
+        if (failures > 0) {
+          failures--;
+          return new Response('', { status, headers: { 'Retry-After': '5' } });
+        }
+        return next(request);
+      },
+    ],
+  });
+}
+
+function PostTitles() {
+  const posts = use(useResourceList('/posts', { _limit: 3 }));
+  return (
+    <ul className="list-disc pl-5">
+      {posts.map((post) => (
+        <li key={post.id}>{post.title}</li>
+      ))}
+    </ul>
+  );
+}
+
+function Failing({ status }: { status: number }) {
+  const [client] = useState(() => createFlakyClient(status));
+  return (
+    <ClientContext.Provider value={client}>
+      <Suspense fallback={<p>Loading…</p>}>
+        <PostTitles />
+      </Suspense>
+    </ClientContext.Provider>
+  );
+}
+
+const meta = {
+  title: 'Components/ApiErrorBoundary',
+  component: ApiErrorBoundary,
+  parameters: {
+    layout: 'padded',
+  },
+  argTypes: {
+    resource: {
+      control: 'text',
+      description: 'Names what failed in the message',
+    },
+    locale: {
+      control: 'select',
+      options: ['en', 'es'],
+      description: 'Language for the message and retry label',
+    },
+  },
+  args: {
+    resource: 'posts',
+    locale: 'en',
+  },
+} satisfies Meta<typeof ApiErrorBoundary>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const NotFound: Story = {
+  render: (args) => (
+    <ApiErrorBoundary {...args}>
+      <Failing status={404} />
+    </ApiErrorBoundary>
+  ),
+};
+
+export const RateLimited: Story = {
+  render: (args) => (
+    <ApiErrorBoundary {...args}>
+      <Failing status={429} />
+    </ApiErrorBoundary>
+  ),
+};
+
+export const ServerError: Story = {
+  render: (args) => (
+    <ApiErrorBoundary {...args}>
+      <Failing status={503} />
+    </ApiErrorBoundary>
+  ),
+};
+
+export const Spanish: Story = {
+  args: { locale: 'es' },
+  render: (args) => (
+    <ApiErrorBoundary {...args}>
+      <Failing status={404} />
+    </ApiErrorBoundary>
+  ),
+};
+
+export const CustomFallback: Story = {
+  render: (args) => (
+    <ApiErrorBoundary
+      {...args}
+      fallback={({ error, message, retry }) => (
+        <div className="flex items-center gap-3">
+          <span className="text-slate-600">
+            {error.category}: {message}
+          </span>
+          <Button size="small" onClick={retry}>
+            Reload
+          </Button>
+        </div>
+      )}
+    >
+      <Failing status={401} />
+    </ApiErrorBoundary>
+  ),
+};
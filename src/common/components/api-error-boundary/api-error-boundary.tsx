@@ -0,0 +1,110 @@
+import { Component, type ContextType, type ErrorInfo, type ReactNode } from 'react';
+import {
+  type ClientError,
+  type ErrorCategory,
+  type InvalidateMatch,
+  ClientContext,
+  errorMessagesFor,
+  formatClientError,
+  isClientError,
+} from '../../api';
+import { Alert, AlertTitle, AlertDescription } from '../alert';
+import { Button } from '../button';
+
+export interface ApiErrorFallbackProps {
+  error: ClientError;
+  /** Localized, user-facing description of `error` */
+  message: string;
+  retry: () => void;
+}
+
+export interface ApiErrorBoundaryProps {
+  children?: ReactNode;
+  /** Names what failed in the message, e.g. 'posts' */
+  resource?: string;
+  /** Defaults to the browser's language */
+  locale?: string;
+  /** Cache entries to invalidate on retry. Defaults to every entry whose last fetch failed. */
+  invalidate?: InvalidateMatch;
+  /** Runs before the boundary re-renders its children, e.g. to refetch outside the cache */
+  onRetry?: (error: ClientError) => void;
+  onError?: (error: ClientError, info: ErrorInfo) => void;
+  /** Reset automatically when any of these change, such as the selected id */
+  resetKeys?: readonly unknown[];
+  /** Replace the default `Alert` */
+  fallback?: (props: ApiErrorFallbackProps) => ReactNode;
+  className?: string;
+  'data-testid'?: string;
+}
+
+interface ApiErrorBoundaryState {
+  error?: unknown;
+}
+
+// Worth a retry button, but not alarming enough for the error styling
+const TRANSIENT: ErrorCategory[] = ['rate-limited', 'timeout', 'aborted'];
+
+function changed(previous: readonly unknown[] = [], next: readonly unknown[] = []) {
+  return previous.length !== next.length || previous.some((value, i) => !Object.is(value, next[i]));
+}
+
+/**
+ * Catches errors thrown by the API layer below it, including rejected `useResource`
+ * promises, and shows a localized `Alert` with a retry button. Retrying invalidates the
+ * failed cache entries so suspended reads fetch again. Anything that isn't a
+ * `ClientError` is rethrown to the next boundary up.
+ */
+export class ApiErrorBoundary extends Component<ApiErrorBoundaryProps, ApiErrorBoundaryState> {
+  static override contextType = ClientContext;
+  declare context: ContextType<typeof ClientContext>;
+
+  override state: ApiErrorBoundaryState = {};
+
+  static getDerivedStateFromError(error: unknown): ApiErrorBoundaryState {
+    return { error };
+  }
+
+  override componentDidCatch(error: unknown, info: ErrorInfo) {
+    if (isClientError(error)) this.props.onError?.(error, info);
+  }
+
+  override componentDidUpdate(previous: ApiErrorBoundaryProps) {
+    if (this.state.error !== undefined && changed(previous.resetKeys, this.props.resetKeys)) {
+      this.setState({ error: undefined });
+    }
+  }
+
+  retry = () => {
+    const { error } = this.state;
+    if (!isClientError(error)) return;
+    const { cache } = this.context;
+    cache.invalidate(
+      this.props.invalidate ??
+        ((route, query) => cache.getState(route, query)?.error !== undefined),
+    );
+    this.props.onRetry?.(error);
+    this.setState({ error: undefined });
+  };
+
+  override render() {
+    const { error } = this.state;
+    if (error === undefined) return this.props.children;
+    if (!isClientError(error)) throw error;
+
+    const { resource, locale, fallback, className, 'data-testid': testId } = this.props;
+    const message = formatClientError(error, { resource, locale });
+    if (fallback) return fallback({ error, message, retry: this.retry });
+
+    const labels = errorMessagesFor(locale);
+    const variant = TRANSIENT.includes(error.category) ? 'warning' : 'error';
+    return (
+      <Alert variant={variant} className={className} data-testid={testId}>
+        <AlertTitle>{labels.title}</AlertTitle>
+        <AlertDescription variant={variant}>{message}</AlertDescription>
+        <Button variant="secondary" size="small" className="mt-2" onClick={this.retry}>
+          {labels.retry}
+        </Button>
+      </Alert>
+    );
+  }
+}
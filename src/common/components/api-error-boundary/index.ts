@@ -0,0 +1,5 @@
+export {
+  ApiErrorBoundary,
+  type ApiErrorBoundaryProps,
+  type ApiErrorFallbackProps,
+} from './api-error-boundary';
@@ -0,0 +1,7 @@
+export { NetworkInspector, type NetworkInspectorProps } from './network-inspector';
+export {
+  networkInspectorVariants,
+  networkInspectorRowVariants,
+  networkInspectorBarVariants,
+  networkInspectorStatusVariants,
+} from './network-inspector.classes';
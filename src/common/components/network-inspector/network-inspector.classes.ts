@@ -0,0 +1,66 @@
+import { cva } from 'class-variance-authority';
+
+export const networkInspectorVariants = cva(
+  'fixed bottom-4 z-50 flex max-h-[60vh] flex-col overflow-hidden rounded-lg border border-slate-200 bg-white font-mono text-xs shadow-lg shadow-slate-900/10 dark:border-slate-700 dark:bg-slate-900 dark:shadow-slate-100/5',
+  {
+    variants: {
+      position: {
+        'bottom-right': 'right-4',
+        'bottom-left': 'left-4',
+      },
+      open: {
+        true: 'w-[min(48rem,calc(100vw-2rem))]',
+        false: 'w-auto',
+      },
+    },
+    defaultVariants: {
+      position: 'bottom-right',
+      open: true,
+    },
+  },
+);
+
+export const networkInspectorRowVariants = cva(
+  'grid w-full grid-cols-[3.5rem_minmax(0,1fr)_3rem_4rem_minmax(0,12rem)] items-center gap-2 px-3 py-1 text-left transition-colors hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-primary-400 dark:hover:bg-slate-800',
+  {
+    variants: {
+      selected: {
+        true: 'bg-slate-100 dark:bg-slate-800',
+        false: '',
+      },
+    },
+    defaultVariants: {
+      selected: false,
+    },
+  },
+);
+
+export const networkInspectorBarVariants = cva('absolute top-1 bottom-1 min-w-[2px] rounded-sm', {
+  variants: {
+    state: {
+      queued: 'bg-slate-300 dark:bg-slate-600',
+      pending: 'animate-pulse bg-info-400 dark:bg-info-500',
+      success: 'bg-success-500 dark:bg-success-400',
+      error: 'bg-error-500 dark:bg-error-400',
+      aborted: 'bg-warning-400 dark:bg-warning-500',
+    },
+  },
+  defaultVariants: {
+    state: 'pending',
+  },
+});
+
+export const networkInspectorStatusVariants = cva('tabular-nums', {
+  variants: {
+    state: {
+      queued: 'text-slate-400 dark:text-slate-500',
+      pending: 'text-slate-500 dark:text-slate-400',
+      success: 'text-success-700 dark:text-success-300',
+      error: 'text-error-700 dark:text-error-300',
+      aborted: 'text-warning-700 dark:text-warning-300',
+    },
+  },
+  defaultVariants: {
+    state: 'pending',
+  },
+});
@@ -0,0 +1,79 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { NetworkInspector } from './network-inspector';
+import { Button } from '../button/button';
+import { createClient, createMockFetch, routes, toId } from '../../api';
+
+// An isolated mock client with uneven latency so the waterfall has something to show
+const client = createClient({
+  fetch: createMockFetch(),
+  network: {
+    delay: { min: 100, max: 900 },
+    rules: [{ match: '/users/:id/todos', failure: { rate: 0.5, status: 503 } }],
+  },
+});
+
+function loadUser(id: number) {
+  const user = routes.users.item(toId(id));
+  return Promise.allSettled([
+    client.get(user.path),
+    client.get(user.posts(), { q: { _limit: 5 } }),
+    client.get(user.todos(), { q: { _limit: 5 } }),
+  ]);
+}
+
+function raceAndAbort() {
+  const controller = new AbortController();
+  client.get('/posts', { signal: controller.signal }).catch(() => {});
+  setTimeout(() => controller.abort(), 150);
+}
+
+const meta = {
+  title: 'Components/NetworkInspector',
+  component: NetworkInspector,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  argTypes: {
+    position: {
+      control: 'select',
+      options: ['bottom-right', 'bottom-left'],
+      description: 'Which corner the panel sits in',
+    },
+    defaultOpen: {
+      control: 'boolean',
+      description: 'Whether the panel starts expanded',
+    },
+  },
+  args: {
+    client,
+  },
+} satisfies Meta<typeof NetworkInspector>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  render: (args) => (
+    <div className="flex gap-2 p-4">
+      <Button onClick={() => loadUser(1)}>Load user 1</Button>
+      <Button variant="secondary" onClick={() => loadUser(2)}>
+        Load user 2
+      </Button>
+      <Button variant="ghost" onClick={raceAndAbort}>
+        Start and abort
+      </Button>
+      <NetworkInspector {...args} />
+    </div>
+  ),
+  args: {
+    position: 'bottom-right',
+    defaultOpen: true,
+  },
+};
+
+export const Collapsed: Story = {
+  render: (args) => <NetworkInspector {...args} />,
+  args: {
+    defaultOpen: false,
+  },
+};
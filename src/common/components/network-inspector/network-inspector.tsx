@@ -0,0 +1,232 @@
+import { type VariantProps } from 'class-variance-authority';
+import {
+  type ComponentPropsWithoutRef,
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  type Client,
+  type NetworkEntry,
+  type NetworkLog,
+  attachNetworkLog,
+  getNetworkLog,
+  useClient,
+  useNetworkLog,
+} from '../../api';
+import { Portal } from '../portal';
+import {
+  networkInspectorVariants,
+  networkInspectorRowVariants,
+  networkInspectorBarVariants,
+  networkInspectorStatusVariants,
+} from './network-inspector.classes';
+import { cn } from '../../utilities/cn';
+
+export interface NetworkInspectorProps
+  extends Omit<ComponentPropsWithoutRef<'div'>, 'children'>,
+    Pick<VariantProps<typeof networkInspectorVariants>, 'position'> {
+  /** Client to watch. Defaults to the one from `ClientContext`. */
+  client?: Client;
+  /** Show an existing log instead of the client's, e.g. one shared between clients */
+  log?: NetworkLog;
+  defaultOpen?: boolean;
+  'data-testid'?: string;
+}
+
+// Re-render on a short interval while anything is in flight so pending bars grow
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => performance.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+}
+
+function formatDuration(ms: number | undefined) {
+  if (ms === undefined) return '…';
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function statusLabel(entry: NetworkEntry) {
+  if (entry.state === 'queued') return 'queue';
+  if (entry.state === 'pending') return '…';
+  if (entry.state === 'aborted') return 'abort';
+  return entry.status ?? 'ERR';
+}
+
+export const NetworkInspector = memo(
+  forwardRef<HTMLDivElement, NetworkInspectorProps>(
+    (
+      {
+        client: clientProp,
+        log: logProp,
+        defaultOpen = true,
+        position,
+        className,
+        'data-testid': testId,
+        ...props
+      },
+      ref,
+    ) => {
+      const contextClient = useClient();
+      const client = clientProp ?? contextClient;
+      const log = useMemo(() => logProp ?? getNetworkLog(client), [logProp, client]);
+      // A log passed in is recorded by whoever created it
+      useEffect(() => (logProp ? undefined : attachNetworkLog(client)), [logProp, client]);
+      const entries = useNetworkLog(log);
+      const [open, setOpen] = useState(defaultOpen);
+      const [selectedId, setSelectedId] = useState<number | undefined>(undefined);
+
+      const hasPending = entries.some(
+        (entry) => entry.state === 'queued' || entry.state === 'pending',
+      );
+      const now = useNow(open && hasPending);
+
+      // Every bar is placed on one timeline that starts with the oldest entry shown
+      const timeline = useMemo(() => {
+        if (entries.length === 0) return { start: 0, span: 1 };
+        const start = Math.min(...entries.map((entry) => entry.queuedAt ?? entry.startedAt));
+        const end = Math.max(...entries.map((entry) => entry.endedAt ?? now));
+        return { start, span: Math.max(end - start, 1) };
+      }, [entries, now]);
+
+      const selected = entries.find((entry) => entry.id === selectedId);
+
+      const toggleOpen = useCallback(() => setOpen((value) => !value), []);
+      const clear = useCallback(() => {
+        log.clear();
+        setSelectedId(undefined);
+      }, [log]);
+
+      const panelClasses = useMemo(
+        () => cn(networkInspectorVariants({ position, open }), className),
+        [position, open, className],
+      );
+
+      return (
+        <Portal>
+          <div
+            ref={ref}
+            role="region"
+            aria-label="Network inspector"
+            className={panelClasses}
+            data-testid={testId}
+            {...props}
+          >
+            <div className="flex items-center gap-3 border-b border-slate-200 px-3 py-2 dark:border-slate-700">
+              <h3 className="font-semibold text-slate-700 dark:text-slate-300">Network</h3>
+              <span className="text-slate-500">
+                {entries.length} {entries.length === 1 ? 'request' : 'requests'}
+              </span>
+              <div className="ml-auto flex items-center gap-1">
+                {open && (
+                  <button
+                    type="button"
+                    onClick={clear}
+                    className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+                  >
+                    Clear
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={toggleOpen}
+                  aria-expanded={open}
+                  aria-label={open ? 'Collapse network inspector' : 'Expand network inspector'}
+                  className="rounded p-1 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+                >
+                  {open ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            {open && (
+              <>
+                <div className="min-h-0 flex-1 overflow-y-auto">
+                  {entries.length === 0 ? (
+                    <p className="px-3 py-4 text-slate-500">No requests yet.</p>
+                  ) : (
+                    entries.map((entry) => {
+                      const end = entry.endedAt ?? now;
+                      const left = ((entry.startedAt - timeline.start) / timeline.span) * 100;
+                      const width = ((end - entry.startedAt) / timeline.span) * 100;
+                      // Time spent waiting for a scheduler slot, drawn ahead of the request
+                      const queuedAt = entry.queuedAt ?? entry.startedAt;
+                      const queuedLeft = ((queuedAt - timeline.start) / timeline.span) * 100;
+                      const queuedWidth = ((entry.startedAt - queuedAt) / timeline.span) * 100;
+                      return (
+                        <button
+                          key={entry.id}
+                          type="button"
+                          onClick={() =>
+                            setSelectedId((id) => (id === entry.id ? undefined : entry.id))
+                          }
+                          className={networkInspectorRowVariants({
+                            selected: entry.id === selectedId,
+                          })}
+                        >
+                          <span className="font-semibold text-slate-700 dark:text-slate-300">
+                            {entry.method}
+                          </span>
+                          <span className="truncate text-slate-800 dark:text-slate-200">
+                            {entry.path}
+                            <span className="text-slate-500">{entry.query}</span>
+                          </span>
+                          <span className={networkInspectorStatusVariants({ state: entry.state })}>
+                            {statusLabel(entry)}
+                          </span>
+                          <span className="text-right text-slate-600 tabular-nums dark:text-slate-400">
+                            {formatDuration(entry.duration)}
+                          </span>
+                          <span className="relative h-4 rounded-sm bg-slate-100 dark:bg-slate-800">
+                            {queuedWidth > 0 && (
+                              <span
+                                className={networkInspectorBarVariants({ state: 'queued' })}
+                                style={{ left: `${queuedLeft}%`, width: `${queuedWidth}%` }}
+                              />
+                            )}
+                            <span
+                              className={networkInspectorBarVariants({ state: entry.state })}
+                              style={{ left: `${left}%`, width: `${width}%` }}
+                            />
+                          </span>
+                        </button>
+                      );
+                    })
+                  )}
+                </div>
+
+                {selected && (
+                  <div className="max-h-40 overflow-auto border-t border-slate-200 bg-slate-50 px-3 py-2 dark:border-slate-700 dark:bg-slate-950">
+                    <p className="mb-1 break-all text-slate-600 dark:text-slate-400">
+                      {selected.method} {selected.url}
+                    </p>
+                    {selected.error && (
+                      <p className="text-error-700 dark:text-error-300 mb-1">{selected.error}</p>
+                    )}
+                    <pre className="break-all whitespace-pre-wrap text-slate-800 dark:text-slate-200">
+                      {selected.preview ??
+                        (selected.state === 'queued'
+                          ? 'Waiting for a connection slot…'
+                          : selected.state === 'pending'
+                            ? 'Waiting…'
+                            : '')}
+                    </pre>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </Portal>
+      );
+    },
+  ),
+);
+NetworkInspector.displayName = 'NetworkInspector';
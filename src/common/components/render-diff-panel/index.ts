@@ -0,0 +1,6 @@
+export { RenderDiffPanel, type RenderDiffPanelProps } from './render-diff-panel';
+export {
+  renderDiffPanelVariants,
+  renderDiffReasonVariants,
+  renderDiffChangeVariants,
+} from './render-diff-panel.classes';
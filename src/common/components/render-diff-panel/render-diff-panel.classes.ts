@@ -0,0 +1,56 @@
+import { cva } from 'class-variance-authority';
+
+export const renderDiffPanelVariants = cva(
+  'fixed bottom-4 z-50 flex max-h-[60vh] flex-col overflow-hidden rounded-lg border border-slate-200 bg-white font-mono text-xs shadow-lg shadow-slate-900/10 dark:border-slate-700 dark:bg-slate-900 dark:shadow-slate-100/5',
+  {
+    variants: {
+      position: {
+        'bottom-right': 'right-4',
+        'bottom-left': 'left-4',
+      },
+      open: {
+        true: 'w-[min(36rem,calc(100vw-2rem))]',
+        false: 'w-auto',
+      },
+    },
+    defaultVariants: {
+      position: 'bottom-left',
+      open: true,
+    },
+  },
+);
+
+export const renderDiffReasonVariants = cva('rounded px-1.5 py-0.5 leading-none', {
+  variants: {
+    kind: {
+      mount: 'bg-info-100 text-info-800 dark:bg-info-900/40 dark:text-info-200',
+      changes: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+      parent: 'bg-warning-100 text-warning-800 dark:bg-warning-900/40 dark:text-warning-200',
+      internal: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+    },
+  },
+  defaultVariants: {
+    kind: 'changes',
+  },
+});
+
+// Avoidable changes (new references, new functions) stand out from real ones
+export const renderDiffChangeVariants = cva(
+  'inline-flex max-w-full items-baseline gap-1 truncate rounded border px-1.5 py-0.5',
+  {
+    variants: {
+      kind: {
+        value: 'border-slate-200 text-slate-700 dark:border-slate-700 dark:text-slate-300',
+        reference:
+          'border-warning-300 bg-warning-50 text-warning-800 dark:border-warning-700 dark:bg-warning-900/30 dark:text-warning-200',
+        function:
+          'border-warning-300 bg-warning-50 text-warning-800 dark:border-warning-700 dark:bg-warning-900/30 dark:text-warning-200',
+        added: 'border-info-300 text-info-800 dark:border-info-700 dark:text-info-200',
+        removed: 'border-info-300 text-info-800 dark:border-info-700 dark:text-info-200',
+      },
+    },
+    defaultVariants: {
+      kind: 'value',
+    },
+  },
+);
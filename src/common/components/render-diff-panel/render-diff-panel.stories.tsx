@@ -0,0 +1,99 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { memo, useState } from 'react';
+import { RenderDiffPanel } from './render-diff-panel';
+import { Button } from '../button/button';
+import { Card } from '../card/card';
+import { createRenderStore, useRenderTracker } from '../../instrumentation';
+
+// A store of the story's own, so other stories' renders don't show up
+const store = createRenderStore();
+
+type ListProps = { items: number[]; onSelect: (item: number) => void };
+
+function List({ items, onSelect }: ListProps) {
+  const track = useRenderTracker('List', { props: { items, onSelect }, store });
+  return (
+    <Card ref={track} className="flex gap-2 p-4">
+      {items.map((item) => (
+        <Button key={item} size="small" variant="secondary" onClick={() => onSelect(item)}>
+          {item}
+        </Button>
+      ))}
+    </Card>
+  );
+}
+
+const MemoList = memo(List);
+
+function Playground() {
+  const [count, setCount] = useState(0);
+  const [selected, setSelected] = useState<number | undefined>(undefined);
+  // A new array and a new function every render: memo can't help either list
+  const items = [1, 2, 3];
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex items-center gap-2">
+        <Button onClick={() => setCount((value) => value + 1)}>Re-render ({count})</Button>
+        <span className="text-sm text-slate-600 dark:text-slate-400">
+          Selected: {selected ?? 'none'}
+        </span>
+      </div>
+      <List items={items} onSelect={setSelected} />
+      <MemoList items={items} onSelect={(item) => setSelected(item)} />
+    </div>
+  );
+}
+
+const meta = {
+  title: 'Components/RenderDiffPanel',
+  component: RenderDiffPanel,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  argTypes: {
+    position: {
+      control: 'select',
+      options: ['bottom-left', 'bottom-right'],
+      description: 'Which corner the panel sits in',
+    },
+    defaultOpen: {
+      control: 'boolean',
+      description: 'Whether the panel starts expanded',
+    },
+    limit: {
+      control: 'number',
+      description: 'Most recent renders shown',
+    },
+  },
+  args: {
+    store,
+  },
+} satisfies Meta<typeof RenderDiffPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  render: (args) => (
+    <>
+      <Playground />
+      <RenderDiffPanel {...args} />
+    </>
+  ),
+  args: {
+    position: 'bottom-left',
+    defaultOpen: true,
+  },
+};
+
+export const Collapsed: Story = {
+  render: (args) => (
+    <>
+      <Playground />
+      <RenderDiffPanel {...args} />
+    </>
+  ),
+  args: {
+    defaultOpen: false,
+  },
+};
@@ -0,0 +1,198 @@
+import { type VariantProps } from 'class-variance-authority';
+import {
+  type ComponentPropsWithoutRef,
+  forwardRef,
+  memo,
+  useCallback,
+  useMemo,
+  useState,
+} from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  type RenderLogEntry,
+  type RenderStore,
+  describeChange,
+  describeReason,
+  isAvoidable,
+  renderStore,
+  useRenderHistory,
+} from '../../instrumentation';
+import { Portal } from '../portal';
+import {
+  renderDiffPanelVariants,
+  renderDiffReasonVariants,
+  renderDiffChangeVariants,
+} from './render-diff-panel.classes';
+import { cn } from '../../utilities/cn';
+
+export interface RenderDiffPanelProps
+  extends Omit<ComponentPropsWithoutRef<'div'>, 'children'>,
+    Pick<VariantProps<typeof renderDiffPanelVariants>, 'position'> {
+  /** Store to read. Defaults to the shared one `useRenderTracker` reports to. */
+  store?: RenderStore;
+  /** Only show renders of these components; a trailing `:` matches `Card:1`, `Card:2`, … */
+  names?: readonly string[];
+  /** Most recent renders shown. Default 50. */
+  limit?: number;
+  defaultOpen?: boolean;
+  'data-testid'?: string;
+}
+
+function matches(names: readonly string[] | undefined, name: string) {
+  if (!names) return true;
+  return names.some((pattern) =>
+    pattern.endsWith(':') ? name.startsWith(pattern) : name === pattern,
+  );
+}
+
+// A render nothing needed: every change was an equal-but-new value, or nothing changed at all
+function isWasted({ reason }: RenderLogEntry) {
+  if (reason.kind === 'parent') return true;
+  return reason.kind === 'changes' && reason.changes.every(isAvoidable);
+}
+
+/**
+ * Why each tracked component rendered, newest first: which props, state or context keys
+ * changed, and whether each was a real change or a new function or equal-but-new object.
+ * "Wasted only" narrows the list to renders `memo`, `useMemo` or `useCallback` would have
+ * skipped. The same entries are available as data from `store.getHistory()`.
+ */
+export const RenderDiffPanel = memo(
+  forwardRef<HTMLDivElement, RenderDiffPanelProps>(
+    (
+      {
+        store = renderStore,
+        names,
+        limit = 50,
+        defaultOpen = true,
+        position,
+        className,
+        'data-testid': testId,
+        ...props
+      },
+      ref,
+    ) => {
+      const history = useRenderHistory(store);
+      const [open, setOpen] = useState(defaultOpen);
+      const [wastedOnly, setWastedOnly] = useState(false);
+
+      const entries = useMemo(
+        () =>
+          history
+            .filter((entry) => matches(names, entry.name))
+            .filter((entry) => !wastedOnly || isWasted(entry))
+            .slice(-limit)
+            .reverse(),
+        [history, names, wastedOnly, limit],
+      );
+
+      const toggleOpen = useCallback(() => setOpen((value) => !value), []);
+      const toggleWasted = useCallback(() => setWastedOnly((value) => !value), []);
+      const clear = useCallback(() => store.reset(), [store]);
+
+      const panelClasses = useMemo(
+        () => cn(renderDiffPanelVariants({ position, open }), className),
+        [position, open, className],
+      );
+
+      return (
+        <Portal>
+          <div
+            ref={ref}
+            role="region"
+            aria-label="Why did this render"
+            className={panelClasses}
+            data-testid={testId}
+            {...props}
+          >
+            <div className="flex items-center gap-3 border-b border-slate-200 px-3 py-2 dark:border-slate-700">
+              <h3 className="font-semibold text-slate-700 dark:text-slate-300">
+                Why did this render?
+              </h3>
+              <span className="text-slate-500">
+                {entries.length} {entries.length === 1 ? 'render' : 'renders'}
+              </span>
+              <div className="ml-auto flex items-center gap-1">
+                {open && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={toggleWasted}
+                      aria-pressed={wastedOnly}
+                      className={cn(
+                        'rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800',
+                        wastedOnly &&
+                          'bg-warning-100 text-warning-800 dark:bg-warning-900/40 dark:text-warning-200',
+                      )}
+                    >
+                      Wasted only
+                    </button>
+                    <button
+                      type="button"
+                      onClick={clear}
+                      className="rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+                    >
+                      Clear
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={toggleOpen}
+                  aria-expanded={open}
+                  aria-label={open ? 'Collapse render diff panel' : 'Expand render diff panel'}
+                  className="rounded p-1 text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+                >
+                  {open ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+                </button>
+              </div>
+            </div>
+
+            {open && (
+              <ol className="min-h-0 flex-1 divide-y divide-slate-100 overflow-y-auto dark:divide-slate-800">
+                {entries.length === 0 ? (
+                  <li className="px-3 py-4 text-slate-500">No renders yet.</li>
+                ) : (
+                  entries.map((entry) => (
+                    <li key={entry.id} className="space-y-1 px-3 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-semibold text-slate-800 dark:text-slate-200">
+                          {entry.name}
+                        </span>
+                        <span className="text-slate-500 tabular-nums">#{entry.renders}</span>
+                        {entry.reason.kind !== 'changes' && (
+                          <span className={renderDiffReasonVariants({ kind: entry.reason.kind })}>
+                            {describeReason(entry.reason)}
+                          </span>
+                        )}
+                      </div>
+                      {entry.reason.kind === 'changes' && (
+                        <ul className="flex flex-wrap gap-1">
+                          {entry.reason.changes.map((change) => (
+                            <li
+                              key={`${change.source}.${change.key}`}
+                              title={`${change.before} → ${change.after}`}
+                              className={renderDiffChangeVariants({ kind: change.kind })}
+                            >
+                              {describeChange(change)}
+                              {change.kind === 'value' && (
+                                <span className="truncate text-slate-500">
+                                  {change.before} → {change.after}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))
+                )}
+              </ol>
+            )}
+          </div>
+        </Portal>
+      );
+    },
+  ),
+);
+RenderDiffPanel.displayName = 'RenderDiffPanel';
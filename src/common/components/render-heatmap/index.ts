@@ -0,0 +1,8 @@
+export { RenderHeatmap, type RenderHeatmapProps } from './render-heatmap';
+export {
+  renderHeatmapToggleVariants,
+  renderHeatmapButtonVariants,
+  renderHeatmapBoxVariants,
+  renderHeatmapFlashVariants,
+  renderHeatmapBadgeVariants,
+} from './render-heatmap.classes';
@@ -0,0 +1,82 @@
+import { cva } from 'class-variance-authority';
+
+export const renderHeatmapToggleVariants = cva(
+  'fixed z-50 flex items-center gap-1 rounded-lg border border-slate-200 bg-white p-1 font-mono text-xs shadow-lg shadow-slate-900/10 dark:border-slate-700 dark:bg-slate-900 dark:shadow-slate-100/5',
+  {
+    variants: {
+      position: {
+        'top-right': 'top-4 right-4',
+        'top-left': 'top-4 left-4',
+        'bottom-right': 'right-4 bottom-4',
+        'bottom-left': 'bottom-4 left-4',
+      },
+    },
+    defaultVariants: {
+      position: 'top-right',
+    },
+  },
+);
+
+export const renderHeatmapButtonVariants = cva(
+  'flex items-center gap-1.5 rounded px-2 py-1 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-400',
+  {
+    variants: {
+      active: {
+        true: 'bg-error-100 text-error-800 dark:bg-error-900/40 dark:text-error-200',
+        false: 'text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800',
+      },
+    },
+    defaultVariants: {
+      active: false,
+    },
+  },
+);
+
+// Cool to hot as a node keeps re-rendering
+export const renderHeatmapBoxVariants = cva(
+  'pointer-events-none fixed z-40 rounded-md border-2 transition-[top,left,width,height] duration-100',
+  {
+    variants: {
+      heat: {
+        low: 'border-success-500',
+        medium: 'border-warning-500',
+        high: 'border-error-400',
+        extreme: 'border-error-600',
+      },
+    },
+    defaultVariants: {
+      heat: 'low',
+    },
+  },
+);
+
+export const renderHeatmapFlashVariants = cva('absolute inset-0 animate-render-flash rounded-sm', {
+  variants: {
+    heat: {
+      low: 'bg-success-400/40',
+      medium: 'bg-warning-400/40',
+      high: 'bg-error-400/40',
+      extreme: 'bg-error-600/50',
+    },
+  },
+  defaultVariants: {
+    heat: 'low',
+  },
+});
+
+export const renderHeatmapBadgeVariants = cva(
+  'absolute -top-2.5 right-1 max-w-[90%] truncate rounded px-1.5 py-0.5 font-mono text-[11px] leading-none font-semibold text-white tabular-nums shadow',
+  {
+    variants: {
+      heat: {
+        low: 'bg-success-600',
+        medium: 'bg-warning-600',
+        high: 'bg-error-500',
+        extreme: 'bg-error-700',
+      },
+    },
+    defaultVariants: {
+      heat: 'low',
+    },
+  },
+);
@@ -0,0 +1,106 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { memo, useState } from 'react';
+import { RenderHeatmap } from './render-heatmap';
+import { Button } from '../button/button';
+import { Card } from '../card/card';
+import { createRenderStore, useRenderTracker, withRenderTracker } from '../../instrumentation';
+
+// A store of the story's own, so other stories' renders don't show up
+const store = createRenderStore();
+
+function Counter({ label, count }: { label: string; count: number }) {
+  const track = useRenderTracker(`Counter:${label}`, { props: { label, count }, store });
+  return (
+    <Card ref={track} className="p-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">{label}</p>
+      <p className="text-2xl font-bold tabular-nums">{count}</p>
+    </Card>
+  );
+}
+
+const MemoCounter = memo(Counter);
+
+function Clock() {
+  const [ticks, setTicks] = useState(0);
+  return (
+    <Card className="p-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">Own state</p>
+      <Button size="small" onClick={() => setTicks((value) => value + 1)}>
+        Tick {ticks}
+      </Button>
+    </Card>
+  );
+}
+
+const TrackedClock = withRenderTracker(Clock, { store });
+
+function Playground() {
+  const [a, setA] = useState(0);
+  const [b, setB] = useState(0);
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex gap-2">
+        <Button onClick={() => setA((value) => value + 1)}>Increment A</Button>
+        <Button variant="secondary" onClick={() => setB((value) => value + 1)}>
+          Increment B
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <Counter label="A" count={a} />
+        <Counter label="B" count={b} />
+        <MemoCounter label="A (memo)" count={a} />
+        <TrackedClock />
+      </div>
+    </div>
+  );
+}
+
+const meta = {
+  title: 'Components/RenderHeatmap',
+  component: RenderHeatmap,
+  parameters: {
+    layout: 'fullscreen',
+  },
+  argTypes: {
+    position: {
+      control: 'select',
+      options: ['top-right', 'top-left', 'bottom-right', 'bottom-left'],
+      description: 'Which corner the toggle sits in',
+    },
+    defaultEnabled: {
+      control: 'boolean',
+      description: 'Whether highlighting starts switched on',
+    },
+  },
+  args: {
+    store,
+  },
+} satisfies Meta<typeof RenderHeatmap>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  render: (args) => (
+    <>
+      <Playground />
+      <RenderHeatmap {...args} />
+    </>
+  ),
+  args: {
+    position: 'top-right',
+    defaultEnabled: true,
+  },
+};
+
+export const Off: Story = {
+  render: (args) => (
+    <>
+      <Playground />
+      <RenderHeatmap {...args} />
+    </>
+  ),
+  args: {
+    defaultEnabled: false,
+  },
+};
@@ -0,0 +1,186 @@
+import { type VariantProps } from 'class-variance-authority';
+import {
+  type ComponentPropsWithoutRef,
+  forwardRef,
+  memo,
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { Eraser, Flame } from 'lucide-react';
+import { type RenderStore, renderStore } from '../../instrumentation';
+import { Portal } from '../portal';
+import {
+  renderHeatmapToggleVariants,
+  renderHeatmapButtonVariants,
+  renderHeatmapBoxVariants,
+  renderHeatmapFlashVariants,
+  renderHeatmapBadgeVariants,
+} from './render-heatmap.classes';
+import { cn } from '../../utilities/cn';
+
+export interface RenderHeatmapProps
+  extends Omit<ComponentPropsWithoutRef<'div'>, 'children'>,
+    Pick<VariantProps<typeof renderHeatmapToggleVariants>, 'position'> {
+  /** Store to watch. Defaults to the shared one `useRenderTracker` reports to. */
+  store?: RenderStore;
+  defaultEnabled?: boolean;
+  'data-testid'?: string;
+}
+
+type Heat = NonNullable<VariantProps<typeof renderHeatmapBoxVariants>['heat']>;
+
+type Mark = {
+  id: number;
+  name: string;
+  count: number;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+function heatOf(count: number): Heat {
+  if (count >= 10) return 'extreme';
+  if (count >= 5) return 'high';
+  if (count >= 2) return 'medium';
+  return 'low';
+}
+
+// `withRenderTracker` wraps components in a `display: contents` element, which has no box
+function measure(element: Element) {
+  const rects =
+    getComputedStyle(element).display === 'contents'
+      ? [...element.children].map((child) => child.getBoundingClientRect())
+      : [element.getBoundingClientRect()];
+  if (rects.length === 0) return undefined;
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const bottom = Math.max(...rects.map((rect) => rect.bottom));
+  const right = Math.max(...rects.map((rect) => rect.right));
+  return { top, left, width: right - left, height: bottom - top };
+}
+
+/**
+ * Flash tracked components on screen every time they render, with a running count on
+ * each, like React DevTools' "Highlight updates" without the extension. Nodes turn from
+ * green to red the more they re-render; counts start when the overlay is switched on.
+ *
+ * Only components whose `useRenderTracker` ref is attached to an element (or that are
+ * wrapped with `withRenderTracker`) can be highlighted.
+ */
+export const RenderHeatmap = memo(
+  forwardRef<HTMLDivElement, RenderHeatmapProps>(
+    (
+      {
+        store = renderStore,
+        defaultEnabled = false,
+        position,
+        className,
+        'data-testid': testId,
+        ...props
+      },
+      ref,
+    ) => {
+      const [enabled, setEnabled] = useState(defaultEnabled);
+      const [marks, setMarks] = useState<readonly Mark[]>([]);
+      // Bumped by "Clear" to start counting from zero again
+      const [generation, setGeneration] = useState(0);
+
+      useEffect(() => {
+        if (!enabled) return;
+        const ids = new WeakMap<Element, number>();
+        const counts = new Map<Element, { name: string; count: number }>();
+        let nextId = 1;
+        let frame = 0;
+
+        // Renders arrive mid-commit; measure and re-render once per frame instead
+        const refresh = () => {
+          frame = 0;
+          const next: Mark[] = [];
+          counts.forEach(({ name, count }, element) => {
+            const box = element.isConnected ? measure(element) : undefined;
+            if (!element.isConnected) counts.delete(element);
+            if (box) next.push({ id: ids.get(element) ?? 0, name, count, ...box });
+          });
+          setMarks(next);
+        };
+        const schedule = () => {
+          if (!frame) frame = requestAnimationFrame(refresh);
+        };
+
+        const stop = store.onRender(({ name, element }) => {
+          if (!element) return;
+          if (!ids.has(element)) ids.set(element, nextId++);
+          counts.set(element, { name, count: (counts.get(element)?.count ?? 0) + 1 });
+          schedule();
+        });
+        window.addEventListener('scroll', schedule, { capture: true, passive: true });
+        window.addEventListener('resize', schedule);
+
+        return () => {
+          stop();
+          cancelAnimationFrame(frame);
+          window.removeEventListener('scroll', schedule, { capture: true });
+          window.removeEventListener('resize', schedule);
+          setMarks([]);
+        };
+      }, [enabled, store, generation]);
+
+      const toggle = useCallback(() => setEnabled((value) => !value), []);
+      const clear = useCallback(() => setGeneration((value) => value + 1), []);
+
+      return (
+        <Portal>
+          {marks.map((mark) => {
+            const heat = heatOf(mark.count);
+            return (
+              <div
+                key={mark.id}
+                aria-hidden
+                className={renderHeatmapBoxVariants({ heat })}
+                style={{ top: mark.top, left: mark.left, width: mark.width, height: mark.height }}
+              >
+                {/* A new key restarts the flash animation on every render */}
+                <div key={mark.count} className={renderHeatmapFlashVariants({ heat })} />
+                <span className={renderHeatmapBadgeVariants({ heat })}>
+                  {mark.name} ×{mark.count}
+                </span>
+              </div>
+            );
+          })}
+
+          <div
+            ref={ref}
+            role="toolbar"
+            aria-label="Render heatmap"
+            className={cn(renderHeatmapToggleVariants({ position }), className)}
+            data-testid={testId}
+            {...props}
+          >
+            <button
+              type="button"
+              onClick={toggle}
+              aria-pressed={enabled}
+              className={renderHeatmapButtonVariants({ active: enabled })}
+            >
+              <Flame className="h-4 w-4" />
+              Highlight renders
+            </button>
+            {enabled && (
+              <button
+                type="button"
+                onClick={clear}
+                aria-label="Reset render counts"
+                className={renderHeatmapButtonVariants({ active: false })}
+              >
+                <Eraser className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </Portal>
+      );
+    },
+  ),
+);
+RenderHeatmap.displayName = 'RenderHeatmap';
@@ -0,0 +1,8 @@
+export * from './render-store';
+export { reasonFor, useRenderTracker } from './use-render-tracker';
+export type { RenderTrackerOptions } from './use-render-tracker';
+export { RenderProfiler } from './render-profiler';
+export type { RenderProfilerProps } from './render-profiler';
+export { withRenderTracker } from './with-render-tracker';
+export type { WithRenderTrackerOptions } from './with-render-tracker';
+export { diffWatched, isDeepEqual, previewValue } from './render-diff';
@@ -0,0 +1,114 @@
+import type { RenderChange, RenderSource } from './render-store';
+
+type Fields = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Fields {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Structural equality for the values props and context usually carry: primitives, arrays,
+ * plain objects, `Date`, `Map` and `Set`. Functions are only equal to themselves.
+ */
+export function isDeepEqual(a: unknown, b: unknown, seen = new WeakMap<object, object>()): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+  // Cyclic structures (React elements, DOM nodes) compare by the pairs already visited
+  if (seen.get(a) === b) return true;
+  seen.set(a, b);
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => isDeepEqual(item, other[i], seen));
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return (
+      a.size === other.size &&
+      [...a].every(([key, value]) => other.has(key) && isDeepEqual(value, other.get(key), seen))
+    );
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((value) => other.has(value));
+  }
+
+  const left = a as Fields;
+  const right = b as Fields;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => Object.hasOwn(right, key) && isDeepEqual(left[key], right[key], seen))
+  );
+}
+
+/** A short, log-friendly rendering of a value: `ƒ onDelete()`, `Array(3)`, `{ id, name }` */
+export function previewValue(value: unknown): string {
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}()`;
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (value instanceof Date) return value.toISOString();
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    return `{ ${keys.slice(0, 4).join(', ')}${keys.length > 4 ? ', …' : ''} }`;
+  }
+  if (typeof value === 'object' && value !== null) return value.constructor.name;
+  return String(value);
+}
+
+function changeOf(source: RenderSource, key: string, before: unknown, after: unknown) {
+  const kind: RenderChange['kind'] =
+    before === undefined
+      ? 'added'
+      : after === undefined
+        ? 'removed'
+        : typeof before === 'function' && typeof after === 'function'
+          ? 'function'
+          : isDeepEqual(before, after)
+            ? 'reference'
+            : 'value';
+  return { source, key, kind, before: previewValue(before), after: previewValue(after) };
+}
+
+function diffFields(source: RenderSource, previous: Fields, next: Fields, depth: number) {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...keys].flatMap((key): RenderChange[] => {
+    const from = previous[key];
+    const to = next[key];
+    if (Object.is(from, to)) return [];
+    if (depth > 0 && isPlainObject(from) && isPlainObject(to)) {
+      const fields = diffFields(source, from, to, depth - 1).map((change) => ({
+        ...change,
+        key: `${key}.${change.key}`,
+      }));
+      // A new provider value whose fields are all identical is still a needless render
+      return fields.length > 0 ? fields : [changeOf(source, key, from, to)];
+    }
+    return [changeOf(source, key, from, to)];
+  });
+}
+
+/**
+ * Every key whose value is no longer `Object.is` to the previous one. Context values that
+ * are plain objects (the usual `{ user, theme, updateTheme }` provider value) are opened one
+ * level further, so the change names the field that moved: `context.app.theme`.
+ */
+export function diffWatched(
+  source: RenderSource,
+  before: object | undefined,
+  after: object | undefined,
+): RenderChange[] {
+  return diffFields(
+    source,
+    (before ?? {}) as Fields,
+    (after ?? {}) as Fields,
+    source === 'context' ? 1 : 0,
+  );
+}
@@ -0,0 +1,10 @@
+import { useLayoutEffect } from 'react';
+
+// Rendered by `withRenderTracker`'s wrapper every time it renders. Its layout effect runs just
+// before the profiler reports the commit, so it says whether the wrapper took part in it
+export function RenderMarker({ onCommit }: { onCommit: () => void }) {
+  useLayoutEffect(() => {
+    onCommit();
+  });
+  return null;
+}
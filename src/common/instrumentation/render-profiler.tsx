@@ -0,0 +1,35 @@
+import { Profiler, type ProfilerOnRenderCallback, type ReactNode } from 'react';
+import { renderStore } from './render-store';
+import type { CommitTiming, RenderStore } from './render-store';
+
+export type RenderProfilerProps = {
+  /** The entry commit timings are added to; usually the name passed to `useRenderTracker` */
+  name: string;
+  store?: RenderStore;
+  /** Called after the timing is recorded */
+  onCommit?: (timing: CommitTiming) => void;
+  children?: ReactNode;
+};
+
+/**
+ * Time every commit of `children` with React's `<Profiler>` and add it to `name`'s
+ * stats. React only reports timings in development and profiling builds.
+ */
+export function RenderProfiler({
+  name,
+  store = renderStore,
+  onCommit,
+  children,
+}: RenderProfilerProps) {
+  const onRender: ProfilerOnRenderCallback = (_id, phase, actualDuration) => {
+    const timing = { phase, actualDuration };
+    store.recordCommit(name, timing);
+    onCommit?.(timing);
+  };
+
+  return (
+    <Profiler id={name} onRender={onRender}>
+      {children}
+    </Profiler>
+  );
+}
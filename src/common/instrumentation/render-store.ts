@@ -0,0 +1,237 @@
+import { useSyncExternalStore } from 'react';
+
+export type RenderSource = 'props' | 'state' | 'context';
+
+/**
+ * How a watched value changed. 'reference' and 'function' are the avoidable ones: a new
+ * object or array with the same contents, or a new function identity (an inline callback).
+ */
+export type ChangeKind = 'value' | 'reference' | 'function' | 'added' | 'removed';
+
+/** One watched value that is no longer `Object.is` to what the previous render saw */
+export type RenderChange = {
+  source: RenderSource;
+  /** `count`, or `app.theme` for a field of a context value */
+  key: string;
+  kind: ChangeKind;
+  /** Previews of the values (see `previewValue`), so entries stay small and serializable */
+  before: string;
+  after: string;
+};
+
+export type RenderReason =
+  | { kind: 'mount' }
+  /** Watched props, state or context changed */
+  | { kind: 'changes'; changes: readonly RenderChange[] }
+  /** Nothing watched changed: the parent rendered and took this component with it */
+  | { kind: 'parent' }
+  /** Seen by `withRenderTracker`: the component's own state or a context it reads changed */
+  | { kind: 'internal' };
+
+export type RenderStats = {
+  name: string;
+  /** Committed renders, mounts included. Renders React throws away aren't counted. */
+  renders: number;
+  mounts: number;
+  lastReason?: RenderReason;
+  /** `performance.now()` of the last committed render */
+  lastRenderAt?: number;
+  /** Commits measured by `<Profiler>`; React only reports these in development builds */
+  commits: number;
+  lastCommitDuration?: number;
+  totalCommitDuration: number;
+  maxCommitDuration: number;
+};
+
+/** One committed render, as `onRender` listeners see it */
+export type RenderEvent = {
+  name: string;
+  reason: RenderReason;
+  /** The component's DOM node, when it attached the tracker's ref to one */
+  element?: Element;
+  /** The entry's render count, this render included */
+  renders: number;
+};
+
+export type CommitTiming = {
+  phase: 'mount' | 'update' | 'nested-update';
+  /** Time spent rendering the subtree for this commit, in milliseconds */
+  actualDuration: number;
+};
+
+/** A render as the history keeps it: plain data, ready for `JSON.stringify` */
+export type RenderLogEntry = {
+  id: number;
+  name: string;
+  /** The entry's render count, this render included */
+  renders: number;
+  /** `performance.now()` when the render was committed */
+  at: number;
+  reason: RenderReason;
+};
+
+export type RenderStoreOptions = {
+  /** Log every recorded render to the console, the way the labs used to by hand. Off by default. */
+  log?: boolean;
+  /** Renders kept in the history; the oldest are dropped past this. Default 200. */
+  historyLimit?: number;
+};
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  value: '',
+  reference: ' (new reference, equal contents)',
+  function: ' (new function)',
+  added: ' (added)',
+  removed: ' (removed)',
+};
+
+/** `props.onDelete (new function)` */
+export function describeChange({ source, key, kind }: RenderChange): string {
+  return `${source}.${key}${CHANGE_LABELS[kind]}`;
+}
+
+/** Changes that a memo, `useMemo` or `useCallback` would have prevented */
+export function isAvoidable(change: RenderChange) {
+  return change.kind === 'reference' || change.kind === 'function';
+}
+
+/** 'mounted', 'props.count, props.onDelete (new function) changed', 'parent re-rendered', … */
+export function describeReason(reason: RenderReason | undefined): string {
+  switch (reason?.kind) {
+    case 'mount':
+      return 'mounted';
+    case 'changes':
+      return `${reason.changes.map(describeChange).join(', ')} changed`;
+    case 'parent':
+      return 'parent re-rendered';
+    case 'internal':
+      return 'own state or context changed';
+    default:
+      return 'not rendered yet';
+  }
+}
+
+function emptyStats(name: string): RenderStats {
+  return { name, renders: 0, mounts: 0, commits: 0, totalCommitDuration: 0, maxCommitDuration: 0 };
+}
+
+/**
+ * Render counts, reasons and commit timings per tracked component, keyed by name.
+ * Instances that share a name share an entry; give them distinct names (`Card:${id}`)
+ * to tell them apart.
+ */
+export function createRenderStore({ log = false, historyLimit = 200 }: RenderStoreOptions = {}) {
+  let stats: Readonly<Record<string, RenderStats>> = {};
+  let history: readonly RenderLogEntry[] = [];
+  let nextId = 1;
+  let logging = log;
+  const listeners = new Set<() => void>();
+  const renderListeners = new Set<(event: RenderEvent) => void>();
+  let notifying = false;
+
+  // Renders are recorded while React commits; tell subscribers once the commit is done
+  function emit() {
+    if (notifying) return;
+    notifying = true;
+    queueMicrotask(() => {
+      notifying = false;
+      listeners.forEach((listener) => listener());
+    });
+  }
+
+  function update(name: string, next: (current: RenderStats) => Partial<RenderStats>) {
+    const current = stats[name] ?? emptyStats(name);
+    stats = { ...stats, [name]: { ...current, ...next(current) } };
+    emit();
+    return stats[name];
+  }
+
+  return {
+    recordRender(name: string, reason: RenderReason, element?: Element) {
+      const entry = update(name, (current) => ({
+        renders: current.renders + 1,
+        mounts: current.mounts + (reason.kind === 'mount' ? 1 : 0),
+        lastReason: reason,
+        lastRenderAt: performance.now(),
+      }));
+      const logged: RenderLogEntry = {
+        id: nextId++,
+        name,
+        renders: entry.renders,
+        at: entry.lastRenderAt ?? performance.now(),
+        reason,
+      };
+      history = [...history, logged].slice(-historyLimit);
+      if (logging) {
+        console.log(`${name} rendered (#${entry.renders}): ${describeReason(reason)}`, logged);
+      }
+      const event = { name, reason, element, renders: entry.renders };
+      renderListeners.forEach((listener) => listener(event));
+    },
+    recordCommit(name: string, { actualDuration }: CommitTiming) {
+      update(name, (current) => ({
+        commits: current.commits + 1,
+        lastCommitDuration: actualDuration,
+        totalCommitDuration: current.totalCommitDuration + actualDuration,
+        maxCommitDuration: Math.max(current.maxCommitDuration, actualDuration),
+      }));
+    },
+    get: (name: string): RenderStats | undefined => stats[name],
+    getAll: () => stats,
+    /** Recorded renders, oldest first: the structured log behind `RenderDiffPanel` */
+    getHistory: () => history,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /**
+     * Hear about every render as it's committed, with the DOM node it landed on. Called
+     * during React's commit, so defer anything that sets state or touches layout.
+     */
+    onRender(listener: (event: RenderEvent) => void) {
+      renderListeners.add(listener);
+      return () => {
+        renderListeners.delete(listener);
+      };
+    },
+    /** Turn console logging on or off, e.g. for a lab whose instructions point at the console */
+    setLogging(enabled: boolean) {
+      logging = enabled;
+    },
+    /** Forget one component's numbers and history, or everyone's */
+    reset(name?: string) {
+      if (name === undefined) {
+        stats = {};
+        history = [];
+      } else {
+        const { [name]: _removed, ...rest } = stats;
+        stats = rest;
+        history = history.filter((entry) => entry.name !== name);
+      }
+      emit();
+    },
+  };
+}
+
+export type RenderStore = ReturnType<typeof createRenderStore>;
+
+/** The store examples report to unless they pass their own. Quiet unless a lab calls `setLogging(true)`. */
+export const renderStore = createRenderStore();
+
+/** Live stats for every component tracked in `store`. */
+export function useRenderStore(store: RenderStore = renderStore) {
+  return useSyncExternalStore(store.subscribe, store.getAll, store.getAll);
+}
+
+/** Live render history of `store`, oldest first. */
+export function useRenderHistory(store: RenderStore = renderStore) {
+  return useSyncExternalStore(store.subscribe, store.getHistory, store.getHistory);
+}
+
+/** Live stats for one tracked component; `undefined` until it first renders. */
+export function useRenderStats(name: string, store: RenderStore = renderStore) {
+  const get = () => store.get(name);
+  return useSyncExternalStore(store.subscribe, get, get);
+}
@@ -0,0 +1,72 @@
+import { useCallback, useLayoutEffect, useRef } from 'react';
+import { renderStore } from './render-store';
+import type { RenderReason, RenderSource, RenderStore } from './render-store';
+import { diffWatched } from './render-diff';
+
+// Any object works, props interfaces included; values are compared key by key
+type Watched = object;
+
+export type RenderTrackerOptions = {
+  /** The component's props; changed keys are reported as `props.<key>` */
+  props?: Watched;
+  /** State worth naming in the reason, e.g. `{ count, color }` */
+  state?: Watched;
+  /**
+   * Context values the component reads, e.g. `{ app: useContext(AppContext) }`. Object
+   * values are diffed a level deeper, so the reason names the field that changed.
+   */
+  context?: Watched;
+  store?: RenderStore;
+};
+
+type Snapshot = Partial<Record<RenderSource, Watched>>;
+
+const SOURCES: readonly RenderSource[] = ['props', 'state', 'context'];
+
+/** Why this render happened compared with the last committed one. */
+export function reasonFor(previous: Snapshot | undefined, next: Snapshot): RenderReason {
+  if (!previous) return { kind: 'mount' };
+  const changes = SOURCES.flatMap((source) => diffWatched(source, previous[source], next[source]));
+  return changes.length > 0 ? { kind: 'changes', changes } : { kind: 'parent' };
+}
+
+/**
+ * Count this component's renders and record why each one happened, in place of a
+ * `console.log` at the top of the component:
+ *
+ *   function CounterWidget({ count, onIncrement }: Props) {
+ *     const track = useRenderTracker('CounterWidget', { props: { count, onIncrement } });
+ *     return <Card ref={track}>…</Card>;
+ *   }
+ *
+ * Attaching the returned ref to the component's outermost element lets `RenderHeatmap`
+ * flash renders on it; it's optional otherwise.
+ *
+ * Renders are recorded when React commits them, so Strict Mode's double render and
+ * renders thrown away by transitions don't inflate the count. Pass `state` and `context`
+ * to have those named in the reason too; anything unwatched shows up as "parent
+ * re-rendered". Each change says whether the value really changed or is a new function or
+ * an equal-but-new object, the renders `memo`, `useMemo` and `useCallback` prevent.
+ *
+ * Commit durations need a `<Profiler>`: wrap with `RenderProfiler` or use
+ * `withRenderTracker`.
+ */
+export function useRenderTracker(name: string, options: RenderTrackerOptions = {}) {
+  const { store = renderStore, props, state, context } = options;
+  const element = useRef<Element | null>(null);
+  const committed = useRef<Snapshot | undefined>(undefined);
+  const snapshot: Snapshot = { props, state, context };
+
+  // No dependency list: this runs once for every commit that includes this component
+  useLayoutEffect(() => {
+    // Strict Mode replays effects on mount without rendering again; count that once
+    if (committed.current === snapshot) return;
+    const reason = reasonFor(committed.current, snapshot);
+    committed.current = snapshot;
+    store.recordRender(name, reason, element.current ?? undefined);
+  });
+
+  return useCallback((node: Element | null) => {
+    element.current = node;
+  }, []);
+}
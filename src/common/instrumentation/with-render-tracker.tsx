@@ -0,0 +1,66 @@
+import { useCallback, useRef, type ComponentType } from 'react';
+import { RenderMarker } from './render-marker';
+import { RenderProfiler } from './render-profiler';
+import { renderStore } from './render-store';
+import type { CommitTiming, RenderStore } from './render-store';
+import { useRenderTracker } from './use-render-tracker';
+
+export type WithRenderTrackerOptions = {
+  /** Defaults to the component's `displayName` or function name */
+  name?: string;
+  store?: RenderStore;
+};
+
+/**
+ * Track a component without touching its body: renders caused by new props are recorded
+ * with the props that changed, renders from its own state or context as 'internal', and
+ * every commit is timed with `<Profiler>`.
+ *
+ *   const TrackedCalculationCard = withRenderTracker(CalculationCard);
+ *
+ * Internal updates are seen through the profiler, so development builds only. The
+ * component is wrapped in a `display: contents` element for `RenderHeatmap` to find.
+ */
+export function withRenderTracker<P extends object>(
+  Component: ComponentType<P>,
+  {
+    name = Component.displayName ?? Component.name,
+    store = renderStore,
+  }: WithRenderTrackerOptions = {},
+) {
+  function Tracked(props: P) {
+    // Set when this wrapper's render commits; a commit without it came from inside the component
+    const rendered = useRef(false);
+    const markRendered = useCallback(() => {
+      rendered.current = true;
+    }, []);
+    const element = useRef<HTMLSpanElement | null>(null);
+    const track = useRenderTracker(name, { props, store });
+    const ref = useCallback(
+      (node: HTMLSpanElement | null) => {
+        element.current = node;
+        track(node);
+      },
+      [track],
+    );
+
+    const onCommit = ({ phase }: CommitTiming) => {
+      if (phase !== 'mount' && !rendered.current) {
+        store.recordRender(name, { kind: 'internal' }, element.current ?? undefined);
+      }
+      rendered.current = false;
+    };
+
+    return (
+      <RenderProfiler name={name} store={store} onCommit={onCommit}>
+        <RenderMarker onCommit={markRendered} />
+        <span ref={ref} className="contents">
+          <Component {...props} />
+        </span>
+      </RenderProfiler>
+    );
+  }
+
+  Tracked.displayName = `withRenderTracker(${name})`;
+  return Tracked;
+}
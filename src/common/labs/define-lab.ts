@@ -0,0 +1,77 @@
+import type { ComponentType } from 'react';
+import { type RenderStore, renderStore, withRenderTracker } from '../instrumentation';
+
+export type LabVariantOptions<Inputs extends object> = {
+  component: ComponentType<Inputs>;
+  /** Defaults to the variant's id */
+  label?: string;
+  /** A sentence on what this variant does differently */
+  description?: string;
+};
+
+export type LabVariantDefinition<Inputs extends object> =
+  | ComponentType<Inputs>
+  | LabVariantOptions<Inputs>;
+
+export type LabVariant<Inputs extends object> = {
+  id: string;
+  label: string;
+  description?: string;
+  /** The variant's entry in the render store, e.g. `prime-time:useMemo` */
+  trackedAs: string;
+  /** The variant wrapped with `withRenderTracker`, so its renders and commits are counted */
+  Component: ComponentType<Inputs>;
+};
+
+export type Lab<Inputs extends object> = {
+  name: string;
+  variants: readonly LabVariant<Inputs>[];
+  defaultVariant: string;
+  store: RenderStore;
+};
+
+export type DefineLabOptions = {
+  /** Shown first. Defaults to the first variant, by convention the unoptimized one. */
+  defaultVariant?: string;
+  store?: RenderStore;
+};
+
+/**
+ * Register a lab's implementations of the same screen so `LabVariants` can switch between
+ * them or show two side by side. Every variant takes the same props, the lab's inputs,
+ * which the application owns and passes to whichever variants are on screen:
+ *
+ *   export const primeTimeLab = defineLab('prime-time', {
+ *     unoptimized: Unoptimized,
+ *     useMemo: { component: WithUseMemo, description: 'Caches the primes per limit' },
+ *   });
+ */
+export function defineLab<Inputs extends object>(
+  name: string,
+  definitions: Record<string, LabVariantDefinition<Inputs>>,
+  { defaultVariant, store = renderStore }: DefineLabOptions = {},
+): Lab<Inputs> {
+  const variants = Object.entries(definitions).map(([id, definition]): LabVariant<Inputs> => {
+    const options: LabVariantOptions<Inputs> =
+      typeof definition === 'object' && 'component' in definition
+        ? definition
+        : { component: definition };
+    const { component, label = id, description } = options;
+    const trackedAs = `${name}:${id}`;
+    return {
+      id,
+      label,
+      description,
+      trackedAs,
+      Component: withRenderTracker(component, { name: trackedAs, store }),
+    };
+  });
+
+  const [first] = variants;
+  if (!first) throw new Error(`Lab "${name}" needs at least one variant`);
+  if (defaultVariant !== undefined && !variants.some((variant) => variant.id === defaultVariant)) {
+    throw new Error(`Lab "${name}" has no variant "${defaultVariant}"`);
+  }
+
+  return { name, variants, defaultVariant: defaultVariant ?? first.id, store };
+}
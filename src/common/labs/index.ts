@@ -0,0 +1,12 @@
+export { defineLab } from './define-lab';
+export type {
+  DefineLabOptions,
+  Lab,
+  LabVariant,
+  LabVariantDefinition,
+  LabVariantOptions,
+} from './define-lab';
+export { useLabSelection } from './use-lab-selection';
+export type { LabSelection } from './use-lab-selection';
+export { LabVariants } from './lab-variants';
+export type { LabVariantsProps } from './lab-variants';
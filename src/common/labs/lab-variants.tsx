@@ -0,0 +1,137 @@
+import { Button } from '../components/button';
+import { Select } from '../components/select';
+import { useRenderStats } from '../instrumentation';
+import { cn } from '../utilities/cn';
+import type { Lab, LabVariant } from './define-lab';
+import { useLabSelection } from './use-lab-selection';
+
+export type LabVariantsProps<Inputs extends object> = {
+  lab: Lab<Inputs>;
+  /** Passed unchanged to every variant on screen */
+  inputs: Inputs;
+  className?: string;
+};
+
+function formatDuration(ms: number | undefined) {
+  if (ms === undefined) return '…';
+  return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`;
+}
+
+type VariantPaneProps<Inputs extends object> = {
+  lab: Lab<Inputs>;
+  variant: LabVariant<Inputs>;
+  inputs: Inputs;
+};
+
+// Reads the stats on its own: if the pane did, each commit would re-render the variant
+// it's measuring, and that render would be another commit
+function VariantStats<Inputs extends object>({
+  lab,
+  variant,
+}: Omit<VariantPaneProps<Inputs>, 'inputs'>) {
+  const stats = useRenderStats(variant.trackedAs, lab.store);
+
+  return (
+    <dl className="flex gap-4 font-mono text-sm text-slate-600 tabular-nums dark:text-slate-400">
+      <div className="flex gap-1">
+        <dt>renders</dt>
+        <dd className="font-semibold text-slate-900 dark:text-slate-100">{stats?.renders ?? 0}</dd>
+      </div>
+      <div className="flex gap-1">
+        <dt>last</dt>
+        <dd>{formatDuration(stats?.lastCommitDuration)}</dd>
+      </div>
+      <div className="flex gap-1">
+        <dt>max</dt>
+        <dd>{formatDuration(stats?.maxCommitDuration)}</dd>
+      </div>
+      <div className="flex gap-1">
+        <dt>total</dt>
+        <dd>{formatDuration(stats?.totalCommitDuration)}</dd>
+      </div>
+    </dl>
+  );
+}
+
+function VariantPane<Inputs extends object>({ lab, variant, inputs }: VariantPaneProps<Inputs>) {
+  const { Component } = variant;
+
+  return (
+    <div className="min-w-0 space-y-4">
+      <header className="rounded-md border border-slate-200 px-4 py-3 dark:border-slate-700">
+        <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+          <h2 className="font-mono font-semibold text-slate-900 dark:text-slate-100">
+            {variant.label}
+          </h2>
+          <VariantStats lab={lab} variant={variant} />
+        </div>
+        {variant.description && (
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">{variant.description}</p>
+        )}
+      </header>
+      <Component {...inputs} />
+    </div>
+  );
+}
+
+/**
+ * Render the lab's chosen variant, or two side by side, with the same inputs. Each one is
+ * headed by its render count and commit timings (React reports those in development only).
+ * Both variants render in the same commits, so a slow one slows the other down too: compare
+ * the numbers rather than how the page feels.
+ */
+export function LabVariants<Inputs extends object>({
+  lab,
+  inputs,
+  className,
+}: LabVariantsProps<Inputs>) {
+  const { variant, compareWith, select, compare } = useLabSelection(lab);
+  const shown = [variant, compareWith].flatMap((id) =>
+    lab.variants.filter((candidate) => candidate.id === id),
+  );
+
+  const resetCounts = () => {
+    shown.forEach(({ trackedAs }) => lab.store.reset(trackedAs));
+  };
+
+  return (
+    <section className={cn('space-y-6', className)}>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="w-56">
+          <Select label="Variant" value={variant} onChange={(e) => select(e.target.value)}>
+            {lab.variants.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="w-56">
+          <Select
+            label="Compare with"
+            value={compareWith ?? ''}
+            onChange={(e) => compare(e.target.value || undefined)}
+          >
+            <option value="">Nothing</option>
+            {lab.variants
+              .filter(({ id }) => id !== variant)
+              .map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+          </Select>
+        </div>
+        <Button variant="secondary" onClick={resetCounts}>
+          Reset counts
+        </Button>
+      </div>
+
+      <div className={cn('grid gap-6', shown.length > 1 && 'lg:grid-cols-2')}>
+        {shown.map((shownVariant) => (
+          <VariantPane key={shownVariant.id} lab={lab} variant={shownVariant} inputs={inputs} />
+        ))}
+      </div>
+    </section>
+  );
+}
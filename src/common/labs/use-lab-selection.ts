@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Lab } from './define-lab';
+
+export type LabSelection = {
+  variant: string;
+  /** A second variant shown alongside the first */
+  compareWith?: string;
+};
+
+function isVariant<Inputs extends object>(lab: Lab<Inputs>, id: string | null): id is string {
+  return id !== null && lab.variants.some((variant) => variant.id === id);
+}
+
+// `?variant=useMemo&compare=unoptimized`, ignoring ids the lab doesn't have
+function fromUrl<Inputs extends object>(lab: Lab<Inputs>): LabSelection {
+  const params = new URLSearchParams(window.location.search);
+  const variant = params.get('variant');
+  const compareWith = params.get('compare');
+  const selected = isVariant(lab, variant) ? variant : lab.defaultVariant;
+  return {
+    variant: selected,
+    compareWith: isVariant(lab, compareWith) && compareWith !== selected ? compareWith : undefined,
+  };
+}
+
+/**
+ * Which of `lab`'s variants are on screen. The choice is kept in the query string, so a
+ * reload (or a link) shows the same comparison.
+ */
+export function useLabSelection<Inputs extends object>(lab: Lab<Inputs>) {
+  const [selection, setSelection] = useState(() => fromUrl(lab));
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('variant', selection.variant);
+    if (selection.compareWith) url.searchParams.set('compare', selection.compareWith);
+    else url.searchParams.delete('compare');
+    window.history.replaceState(window.history.state, '', url);
+  }, [selection]);
+
+  const select = useCallback((variant: string) => {
+    setSelection(({ compareWith }) => ({
+      variant,
+      compareWith: compareWith === variant ? undefined : compareWith,
+    }));
+  }, []);
+
+  const compare = useCallback((compareWith: string | undefined) => {
+    setSelection(({ variant }) => ({
+      variant,
+      compareWith: compareWith === variant ? undefined : compareWith,
+    }));
+  }, []);
+
+  return { ...selection, select, compare };
+}
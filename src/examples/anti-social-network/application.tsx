@@ -3,11 +3,14 @@ import { Container } from '$components/container';
 import { Alert } from '$components/alert';
 import { PostForm } from './components/post-form';
 import { PostList } from './components/post-list';
-import { createPost, removePost, listPosts } from '$/common/api';
-import type { Post, PostFormData } from './types';
+import { OfflineBanner } from './components/offline-banner';
+import { listPosts, toId, useOfflineQueue } from '$/common/api';
+import type { PostBody } from '$/common/api';
+import { offlineQueue } from './utilities/offline-queue';
+import type { OptimisticPost, Post, PostFormData } from './types';
 
 // Using a fixed user ID for this demo
-const CURRENT_USER_ID = 1;
+const CURRENT_USER_ID = toId(1);
 
 function Application() {
   const [posts, setPosts] = useState<Post[]>([]);
@@ -32,19 +35,44 @@ function Application() {
     fetchPosts();
   }, []);
 
+  // Once a post created offline reaches the server, it becomes a regular post
+  useEffect(() => {
+    let previous = offlineQueue.getState().entries;
+    return offlineQueue.subscribe(() => {
+      const { entries } = offlineQueue.getState();
+      const sent = previous.flatMap((entry) => {
+        const id = entry.tempId === undefined ? undefined : offlineQueue.serverId(entry.tempId);
+        const left = !entries.some((current) => current.id === entry.id);
+        return id !== undefined && left ? [{ ...(entry.body as PostBody<'/posts'>), id }] : [];
+      });
+      previous = entries;
+      if (sent.length > 0) setPosts((prev) => [...sent.reverse(), ...prev]);
+    });
+  }, []);
+
+  // Posts still waiting in the offline queue, newest first
+  const { entries } = useOfflineQueue(offlineQueue);
+  const queuedPosts = entries
+    .flatMap((entry): OptimisticPost[] =>
+      entry.method === 'POST' && entry.tempId !== undefined
+        ? [{ ...(entry.body as PostBody<'/posts'>), id: entry.tempId, isPending: true }]
+        : [],
+    )
+    .reverse();
+
   const handleCreatePost = async (formData: PostFormData) => {
     try {
       setError(null);
 
-      // Call API and wait for response
-      const newPost = await createPost({
+      // Call API and wait for response; offline, the post waits in the queue instead
+      const result = await offlineQueue.post('/posts', {
         title: formData.title,
         body: formData.body,
-        userId: CURRENT_USER_ID as unknown as import('$/common/api').Id,
+        userId: CURRENT_USER_ID,
       });
 
       // Add the new post to the beginning of the list
-      setPosts((prev) => [newPost, ...prev]);
+      if (result.status === 'sent') setPosts((prev) => [result.data, ...prev]);
     } catch (err) {
       setError('Failed to create post. Please try again.');
       console.error('Error creating post:', err);
@@ -55,8 +83,8 @@ function Application() {
     try {
       setError(null);
 
-      // Call API and wait for response
-      await removePost(id);
+      // Call API and wait for response; offline, the delete is sent once we reconnect
+      await offlineQueue.del(`/posts/${toId(id)}`);
 
       // Remove the post from the list
       setPosts((prev) => prev.filter((post) => post.id !== id));
@@ -78,6 +106,8 @@ function Application() {
         </p>
       </section>
 
+      <OfflineBanner queue={offlineQueue} />
+
       {error && (
         <Alert variant="error">
           <p>{error}</p>
@@ -94,7 +124,7 @@ function Application() {
             <p className="text-slate-600 dark:text-slate-400">Loading posts...</p>
           </div>
         ) : (
-          <PostList posts={posts} onDeletePost={handleDeletePost} />
+          <PostList posts={[...queuedPosts, ...posts]} onDeletePost={handleDeletePost} />
         )}
       </section>
     </Container>
@@ -0,0 +1,44 @@
+import { Alert } from '$components/alert';
+import { Button } from '$components/button';
+import { useOfflineQueue } from '$/common/api';
+import type { OfflineQueue } from '$/common/api';
+
+interface OfflineBannerProps {
+  queue: OfflineQueue;
+}
+
+export function OfflineBanner({ queue }: OfflineBannerProps) {
+  const { online, replaying, entries } = useOfflineQueue(queue);
+  const failed = entries.filter((entry) => entry.status === 'failed');
+  const waiting = entries.length - failed.length;
+
+  if (online && entries.length === 0) return null;
+
+  const changes = `${waiting} ${waiting === 1 ? 'change' : 'changes'}`;
+  const message = !online
+    ? `You're offline. ${changes} will be sent when the connection comes back.`
+    : replaying
+      ? `Sending ${changes}...`
+      : `${changes} waiting to be sent.`;
+
+  return (
+    <Alert variant={failed.length > 0 ? 'error' : 'warning'}>
+      {waiting > 0 && <p>{message}</p>}
+      {failed.map((entry) => (
+        <div key={entry.id} className="mt-2 flex items-center justify-between gap-4">
+          <p className="text-sm">
+            {entry.method} {entry.route} failed: {entry.error}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="small" onClick={() => void queue.retry(entry.id)}>
+              Retry
+            </Button>
+            <Button variant="ghost" size="small" onClick={() => void queue.discard(entry.id)}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      ))}
+    </Alert>
+  );
+}
@@ -0,0 +1,7 @@
+import { createOfflineQueue, defaultClient } from '$/common/api';
+
+// Posts created or deleted while offline wait in localStorage and are sent, in order,
+// once the browser is back online
+export const offlineQueue = createOfflineQueue(defaultClient, {
+  onStorageError: (error) => console.error('Error restoring queued changes:', error),
+});
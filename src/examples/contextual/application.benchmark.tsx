@@ -0,0 +1,23 @@
+import { benchmark, labVariants, step } from '$/common/benchmarks';
+import Application from './application';
+import { contextualLab } from './variants';
+
+benchmark('contextual: pick a color, turn on push, refresh the stats', {
+  variants: labVariants(contextualLab, Application),
+  interact: async ({ screen, user }) => {
+    await step(() => user.click(screen.getByLabelText('Red')));
+    await step(() => user.click(screen.getByLabelText(/push/i)));
+    await step(() => user.click(screen.getByRole('button', { name: /refresh/i })));
+  },
+  budgets: {
+    // Each change re-renders only the card that reads it
+    splitContexts: {
+      renders: {
+        'splitContexts:UserProfileCard': 0,
+        'splitContexts:ThemeSettingsCard': 1,
+        'splitContexts:NotificationSettingsCard': 1,
+        'splitContexts:StatsCard': 1,
+      },
+    },
+  },
+});
@@ -0,0 +1,32 @@
+import { useRenderTracker } from '$/common/instrumentation';
+import { useAppContext } from '../contexts/app-context';
+import { UserProfileCard } from './user-profile-card';
+import { ThemeSettingsCard } from './theme-settings-card';
+import { NotificationSettingsCard } from './notification-settings-card';
+import { StatsCard } from './stats-card';
+
+interface DashboardProps {
+  /** The lab variant showing the dashboard, so two variants side by side are tracked apart */
+  variant: string;
+}
+
+/** All four cards, fed from the single `AppContext` */
+export function Dashboard({ variant }: DashboardProps) {
+  const app = useAppContext();
+  const { user, theme, notifications, stats, updateTheme, updateNotifications, refreshStats } = app;
+  // Names the context field behind each render, e.g. `context.app.theme`
+  const track = useRenderTracker(`${variant}:Dashboard`, { context: { app } });
+
+  return (
+    <div ref={track} className="grid gap-6 lg:grid-cols-2">
+      <UserProfileCard variant={variant} user={user} />
+      <ThemeSettingsCard variant={variant} theme={theme} onUpdateTheme={updateTheme} />
+      <NotificationSettingsCard
+        variant={variant}
+        notifications={notifications}
+        onUpdateNotifications={updateNotifications}
+      />
+      <StatsCard variant={variant} stats={stats} onRefresh={refreshStats} />
+    </div>
+  );
+}
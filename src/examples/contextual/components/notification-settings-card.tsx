@@ -1,20 +1,26 @@
 import { Card } from '$components/card';
 import { Checkbox } from '$components/checkbox';
+import { useRenderTracker } from '$/common/instrumentation';
 import type { NotificationSettings } from '../types';
 
 interface NotificationSettingsCardProps {
   notifications: NotificationSettings;
   onUpdateNotifications: (notifications: Partial<NotificationSettings>) => void;
+  /** The lab variant showing the card, so cards of two variants side by side are tracked apart */
+  variant: string;
 }
 
 export function NotificationSettingsCard({
   notifications,
   onUpdateNotifications,
+  variant,
 }: NotificationSettingsCardProps) {
-  console.log('🔔 NotificationSettingsCard rendered');
+  const track = useRenderTracker(`${variant}:NotificationSettingsCard`, {
+    props: { notifications, onUpdateNotifications },
+  });
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h2 className="mb-4 text-xl font-semibold text-slate-900 dark:text-slate-100">
         Notification Settings
       </h2>
@@ -1,19 +1,22 @@
 import { Card } from '$components/card';
 import { Button } from '$components/button';
+import { useRenderTracker } from '$/common/instrumentation';
 import type { AppStats } from '../types';
 
 interface StatsCardProps {
   stats: AppStats;
   onRefresh: () => void;
+  /** The lab variant showing the card, so cards of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function StatsCard({ stats, onRefresh }: StatsCardProps) {
-  console.log('📊 StatsCard rendered');
+export function StatsCard({ stats, onRefresh, variant }: StatsCardProps) {
+  const track = useRenderTracker(`${variant}:StatsCard`, { props: { stats, onRefresh } });
 
   const timeAgo = Math.floor((Date.now() - stats.lastUpdated) / 1000);
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <div className="mb-4 flex items-center justify-between">
         <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100">
           Live Statistics
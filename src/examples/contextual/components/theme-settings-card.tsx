@@ -1,14 +1,19 @@
 import { Card } from '$components/card';
 import { Button } from '$components/button';
+import { useRenderTracker } from '$/common/instrumentation';
 import type { ThemeSettings } from '../types';
 
 interface ThemeSettingsCardProps {
   theme: ThemeSettings;
   onUpdateTheme: (theme: Partial<ThemeSettings>) => void;
+  /** The lab variant showing the card, so cards of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function ThemeSettingsCard({ theme, onUpdateTheme }: ThemeSettingsCardProps) {
-  console.log('🎨 ThemeSettingsCard rendered');
+export function ThemeSettingsCard({ theme, onUpdateTheme, variant }: ThemeSettingsCardProps) {
+  const track = useRenderTracker(`${variant}:ThemeSettingsCard`, {
+    props: { theme, onUpdateTheme },
+  });
 
   const colors = [
     { name: 'Blue', value: '#3b82f6' },
@@ -20,7 +25,7 @@ export function ThemeSettingsCard({ theme, onUpdateTheme }: ThemeSettingsCardPro
   const fontSizes: Array<'small' | 'medium' | 'large'> = ['small', 'medium', 'large'];
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h2 className="mb-4 text-xl font-semibold text-slate-900 dark:text-slate-100">
         Theme Settings
       </h2>
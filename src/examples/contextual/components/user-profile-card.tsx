@@ -1,15 +1,18 @@
 import { Card } from '$components/card';
+import { useRenderTracker } from '$/common/instrumentation';
 import type { UserProfile } from '../types';
 
 interface UserProfileCardProps {
   user: UserProfile;
+  /** The lab variant showing the card, so cards of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function UserProfileCard({ user }: UserProfileCardProps) {
-  console.log('👤 UserProfileCard rendered');
+export function UserProfileCard({ user, variant }: UserProfileCardProps) {
+  const track = useRenderTracker(`${variant}:UserProfileCard`, { props: { user } });
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h2 className="mb-4 text-xl font-semibold text-slate-900 dark:text-slate-100">
         User Profile
       </h2>
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import type { AppContextValue } from '../types';
+
+// ❌ ANTI-PATTERN: Single context with everything
+export const AppContext = createContext<AppContextValue | null>(null);
+
+export function useAppContext() {
+  const context = useContext(AppContext);
+  if (!context) {
+    throw new Error('useAppContext must be used within AppProvider');
+  }
+  return context;
+}
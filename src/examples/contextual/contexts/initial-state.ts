@@ -0,0 +1,34 @@
+import type { UserProfile, ThemeSettings, NotificationSettings, AppStats } from '../types';
+
+export const INITIAL_USER: UserProfile = {
+  id: 1,
+  name: 'Jane Developer',
+  email: 'jane@example.com',
+  avatar: 'JD',
+};
+
+export const INITIAL_THEME: ThemeSettings = {
+  mode: 'light',
+  primaryColor: '#3b82f6',
+  fontSize: 'medium',
+};
+
+export const INITIAL_NOTIFICATIONS: NotificationSettings = {
+  email: true,
+  push: false,
+  sms: false,
+};
+
+export const INITIAL_STATS: AppStats = {
+  pageViews: 12453,
+  activeUsers: 342,
+  lastUpdated: Date.now(),
+};
+
+export function randomStats(): AppStats {
+  return {
+    pageViews: Math.floor(Math.random() * 100000),
+    activeUsers: Math.floor(Math.random() * 1000),
+    lastUpdated: Date.now(),
+  };
+}
@@ -0,0 +1,56 @@
+import { createContext, useContext } from 'react';
+import type { UserProfile, ThemeSettings, NotificationSettings, AppStats } from '../types';
+
+// ✅ One context per concern, each provided by `split-providers.tsx`
+
+export interface ThemeContextValue {
+  theme: ThemeSettings;
+  updateTheme: (updates: Partial<ThemeSettings>) => void;
+}
+
+export interface NotificationsContextValue {
+  notifications: NotificationSettings;
+  updateNotifications: (updates: Partial<NotificationSettings>) => void;
+}
+
+export interface StatsContextValue {
+  stats: AppStats;
+  refreshStats: () => void;
+}
+
+export const UserContext = createContext<UserProfile | null>(null);
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
+export const NotificationsContext = createContext<NotificationsContextValue | null>(null);
+export const StatsContext = createContext<StatsContextValue | null>(null);
+
+export function useUser() {
+  const context = useContext(UserContext);
+  if (!context) {
+    throw new Error('useUser must be used within UserProvider');
+  }
+  return context;
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within ThemeProvider');
+  }
+  return context;
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within NotificationsProvider');
+  }
+  return context;
+}
+
+export function useStats() {
+  const context = useContext(StatsContext);
+  if (!context) {
+    throw new Error('useStats must be used within StatsProvider');
+  }
+  return context;
+}
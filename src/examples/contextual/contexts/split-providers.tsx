@@ -0,0 +1,54 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { ThemeSettings, NotificationSettings, AppStats } from '../types';
+import {
+  INITIAL_USER,
+  INITIAL_THEME,
+  INITIAL_NOTIFICATIONS,
+  INITIAL_STATS,
+  randomStats,
+} from './initial-state';
+import { UserContext, ThemeContext, NotificationsContext, StatsContext } from './split-contexts';
+
+export function UserProvider({ children }: { children: React.ReactNode }) {
+  // User never changes here, so this is static
+  return <UserContext.Provider value={INITIAL_USER}>{children}</UserContext.Provider>;
+}
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  const [theme, setTheme] = useState<ThemeSettings>(INITIAL_THEME);
+
+  const updateTheme = useCallback((updates: Partial<ThemeSettings>) => {
+    setTheme((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  const value = useMemo(() => ({ theme, updateTheme }), [theme, updateTheme]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const [notifications, setNotifications] = useState<NotificationSettings>(INITIAL_NOTIFICATIONS);
+
+  const updateNotifications = useCallback((updates: Partial<NotificationSettings>) => {
+    setNotifications((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ notifications, updateNotifications }),
+    [notifications, updateNotifications],
+  );
+
+  return <NotificationsContext.Provider value={value}>{children}</NotificationsContext.Provider>;
+}
+
+export function StatsProvider({ children }: { children: React.ReactNode }) {
+  const [stats, setStats] = useState<AppStats>(INITIAL_STATS);
+
+  const refreshStats = useCallback(() => {
+    setStats(randomStats());
+  }, []);
+
+  const value = useMemo(() => ({ stats, refreshStats }), [stats, refreshStats]);
+
+  return <StatsContext.Provider value={value}>{children}</StatsContext.Provider>;
+}
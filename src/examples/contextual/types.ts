@@ -33,3 +33,9 @@ export interface AppContextValue {
   updateNotifications: (notifications: Partial<NotificationSettings>) => void;
   refreshStats: () => void;
 }
+
+/**
+ * Contextual's variants own their providers: how the state is split into contexts is what
+ * they compare, so the application has no inputs to hand them
+ */
+export type ContextualInputs = Record<string, never>;
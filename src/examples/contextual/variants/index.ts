@@ -0,0 +1,22 @@
+import { defineLab } from '$/common/labs';
+import type { ContextualInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithMemoizedValue } from './memoized-value';
+import { WithSplitContexts } from './split-contexts';
+
+export const contextualLab = defineLab<ContextualInputs>('contextual', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'One context with a new value every render: every card re-renders on any change.',
+  },
+  memoizedValue: {
+    component: WithMemoizedValue,
+    label: 'Memoized value',
+    description: 'Stable functions and value, but any change still re-renders every card.',
+  },
+  splitContexts: {
+    component: WithSplitContexts,
+    label: 'Split contexts',
+    description: 'One context per concern, so only the card using what changed re-renders.',
+  },
+});
@@ -0,0 +1,52 @@
+import { useCallback, useMemo, useState } from 'react';
+import { AppContext } from '../contexts/app-context';
+import {
+  INITIAL_USER,
+  INITIAL_THEME,
+  INITIAL_NOTIFICATIONS,
+  INITIAL_STATS,
+  randomStats,
+} from '../contexts/initial-state';
+import { Dashboard } from '../components/dashboard';
+import type { ThemeSettings, NotificationSettings, AppStats } from '../types';
+
+function MemoizedAppProvider({ children }: { children: React.ReactNode }) {
+  const [user] = useState(INITIAL_USER);
+  const [theme, setTheme] = useState<ThemeSettings>(INITIAL_THEME);
+  const [notifications, setNotifications] = useState<NotificationSettings>(INITIAL_NOTIFICATIONS);
+  const [stats, setStats] = useState<AppStats>(INITIAL_STATS);
+
+  const updateTheme = useCallback((updates: Partial<ThemeSettings>) => {
+    setTheme((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  const updateNotifications = useCallback((updates: Partial<NotificationSettings>) => {
+    setNotifications((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  const refreshStats = useCallback(() => {
+    setStats(randomStats());
+  }, []);
+
+  // Stable until some state changes, and then every consumer still re-renders
+  const value = useMemo(
+    () => ({
+      user,
+      theme,
+      notifications,
+      stats,
+      updateTheme,
+      updateNotifications,
+      refreshStats,
+    }),
+    [user, theme, notifications, stats, updateTheme, updateNotifications, refreshStats],
+  );
+
+  return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
+}
+
+export const WithMemoizedValue = () => (
+  <MemoizedAppProvider>
+    <Dashboard variant="memoizedValue" />
+  </MemoizedAppProvider>
+);
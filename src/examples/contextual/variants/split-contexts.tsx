@@ -0,0 +1,58 @@
+import { useUser, useTheme, useNotifications, useStats } from '../contexts/split-contexts';
+import {
+  UserProvider,
+  ThemeProvider,
+  NotificationsProvider,
+  StatsProvider,
+} from '../contexts/split-providers';
+import { UserProfileCard } from '../components/user-profile-card';
+import { ThemeSettingsCard } from '../components/theme-settings-card';
+import { NotificationSettingsCard } from '../components/notification-settings-card';
+import { StatsCard } from '../components/stats-card';
+
+const variant = 'splitContexts';
+
+// Each card reads only the context it needs, so only that card re-renders when it changes
+
+const UserProfile = () => {
+  const user = useUser();
+  return <UserProfileCard variant={variant} user={user} />;
+};
+
+const ThemeSettings = () => {
+  const { theme, updateTheme } = useTheme();
+  return <ThemeSettingsCard variant={variant} theme={theme} onUpdateTheme={updateTheme} />;
+};
+
+const NotificationSettings = () => {
+  const { notifications, updateNotifications } = useNotifications();
+  return (
+    <NotificationSettingsCard
+      variant={variant}
+      notifications={notifications}
+      onUpdateNotifications={updateNotifications}
+    />
+  );
+};
+
+const Stats = () => {
+  const { stats, refreshStats } = useStats();
+  return <StatsCard variant={variant} stats={stats} onRefresh={refreshStats} />;
+};
+
+export const WithSplitContexts = () => (
+  <UserProvider>
+    <ThemeProvider>
+      <NotificationsProvider>
+        <StatsProvider>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <UserProfile />
+            <ThemeSettings />
+            <NotificationSettings />
+            <Stats />
+          </div>
+        </StatsProvider>
+      </NotificationsProvider>
+    </ThemeProvider>
+  </UserProvider>
+);
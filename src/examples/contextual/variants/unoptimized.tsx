@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { AppContext } from '../contexts/app-context';
+import {
+  INITIAL_USER,
+  INITIAL_THEME,
+  INITIAL_NOTIFICATIONS,
+  INITIAL_STATS,
+  randomStats,
+} from '../contexts/initial-state';
+import { Dashboard } from '../components/dashboard';
+import type { ThemeSettings, NotificationSettings, AppStats } from '../types';
+
+function AppProvider({ children }: { children: React.ReactNode }) {
+  const [user] = useState(INITIAL_USER);
+  const [theme, setTheme] = useState<ThemeSettings>(INITIAL_THEME);
+  const [notifications, setNotifications] = useState<NotificationSettings>(INITIAL_NOTIFICATIONS);
+  const [stats, setStats] = useState<AppStats>(INITIAL_STATS);
+
+  // ❌ These functions are recreated on EVERY render
+  const updateTheme = (updates: Partial<ThemeSettings>) => {
+    setTheme((prev) => ({ ...prev, ...updates }));
+  };
+
+  const updateNotifications = (updates: Partial<NotificationSettings>) => {
+    setNotifications((prev) => ({ ...prev, ...updates }));
+  };
+
+  const refreshStats = () => {
+    setStats(randomStats());
+  };
+
+  // ❌ This object is created NEW on every render
+  // Every state change causes ALL consumers to re-render!
+  const value = {
+    user,
+    theme,
+    notifications,
+    stats,
+    updateTheme,
+    updateNotifications,
+    refreshStats,
+  };
+
+  return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
+}
+
+export const Unoptimized = () => (
+  <AppProvider>
+    <Dashboard variant="unoptimized" />
+  </AppProvider>
+);
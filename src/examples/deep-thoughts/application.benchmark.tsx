@@ -0,0 +1,9 @@
+import { benchmark, labVariants, typeInto } from '$/common/benchmarks';
+import Application from './application';
+import { deepThoughtsLab } from './variants';
+
+benchmark('deep-thoughts: draft a new thought', {
+  variants: labVariants(deepThoughtsLab, Application),
+  interact: ({ screen, user }) =>
+    typeInto(user, screen.getByPlaceholderText("What's on your mind?"), 'Why?'),
+});
@@ -3,10 +3,15 @@ import { useState } from 'react';
 import { Button } from '$/common/components/button';
 import { Input } from '$/common/components/input';
 import { Toggle } from '$/common/components/toggle';
+import { useRenderTracker } from '$/common/instrumentation';
 
 import type { DeepThought, ThoughtActions } from '../types';
 
-type ThoughtProps = DeepThought & ThoughtActions;
+export type ThoughtProps = DeepThought &
+  ThoughtActions & {
+    /** The lab variant showing the thought, so thoughts of two variants side by side are tracked apart */
+    variant: string;
+  };
 
 export const Thought = ({
   id,
@@ -15,9 +20,14 @@ export const Thought = ({
   updateThought,
   deleteThought,
   addThought,
+  variant,
 }: ThoughtProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [draft, setDraft] = useState<string>(content);
+  const track = useRenderTracker(`${variant}:Thought:${id}`, {
+    props: { content, createdAt, updateThought, deleteThought, addThought },
+    state: { isEditing, draft },
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,7 +38,10 @@ export const Thought = ({
   const date = new Date(createdAt).toLocaleString();
 
   return (
-    <div className="group flex flex-col gap-4 bg-slate-50 p-4 shadow-sm dark:bg-slate-800">
+    <div
+      ref={track}
+      className="group flex flex-col gap-4 bg-slate-50 p-4 shadow-sm dark:bg-slate-800"
+    >
       <div className="flex items-start gap-4">
         <div className="flex-1">
           <p>{content}</p>
@@ -0,0 +1,37 @@
+import type { ComponentProps } from 'react';
+
+import { Button } from '$/common/components/button';
+
+import { CaptureThought } from './capture-thought';
+import { Thoughts } from './thoughts';
+
+type ThoughtsPanelProps = ComponentProps<typeof Thoughts> & {
+  draftThought: string;
+  onDraftChange: (content: string) => void;
+  clearAll: () => void;
+};
+
+export const ThoughtsPanel = ({
+  draftThought,
+  onDraftChange,
+  clearAll,
+  ...thoughtsProps
+}: ThoughtsPanelProps) => {
+  return (
+    <div className="flex flex-col gap-8">
+      <CaptureThought
+        draftThought={draftThought}
+        onChange={onDraftChange}
+        onSubmit={thoughtsProps.addThought}
+      />
+
+      <Thoughts {...thoughtsProps} />
+
+      <div className="flex flex-wrap items-center justify-end gap-4 p-4">
+        <Button variant="danger" onClick={clearAll}>
+          Clear All
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,20 @@
+import type { ComponentType } from 'react';
 import type { DeepThought, ThoughtActions } from '../types';
 import { Thought } from './thought';
+import type { ThoughtProps } from './thought';
 
 type ThoughtsProps = ThoughtActions & {
   thoughts: DeepThought[];
+  variant: string;
+  /** The thought each variant renders; defaults to the unoptimized one */
+  thought?: ComponentType<ThoughtProps>;
 };
 
-export const Thoughts = ({ thoughts, ...actions }: ThoughtsProps) => {
+export const Thoughts = ({ thoughts, thought: ThoughtItem = Thought, ...props }: ThoughtsProps) => {
   return (
     <div className="flex flex-col gap-4">
       {thoughts.map((thought) => (
-        <Thought key={thought.id} {...thought} {...actions} />
+        <ThoughtItem key={thought.id} {...thought} {...props} />
       ))}
     </div>
   );
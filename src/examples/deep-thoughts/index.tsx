@@ -1,5 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { RenderDiffPanel } from '$components/render-diff-panel';
+import { RenderHeatmap } from '$components/render-heatmap';
 import Application from './application';
 
 import '$/common/index.css';
@@ -10,5 +12,7 @@ if (!rootElement) throw new Error('Failed to find the root element. 😵‍💫'
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
     <Application />
+    <RenderHeatmap />
+    <RenderDiffPanel />
   </React.StrictMode>,
 );
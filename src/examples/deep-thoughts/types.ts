@@ -12,3 +12,9 @@ export type ThoughtActions = {
   updateThought: (id: string, changes: ThoughtChanges) => void;
   deleteThought: (id: string) => void;
 };
+
+/**
+ * Deep Thoughts' variants own their thoughts: stable handlers belong in the component that
+ * holds the state, so the application has no inputs to hand them
+ */
+export type DeepThoughtsInputs = Record<string, never>;
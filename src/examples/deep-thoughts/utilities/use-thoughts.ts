@@ -0,0 +1,45 @@
+import { useState } from 'react';
+
+import type { DeepThought, ThoughtChanges } from '../types';
+
+import { createThought } from './create-thought';
+import { initialThoughts } from './initial-thoughts';
+
+/** The thoughts and the draft, with handlers that are new on every render */
+export function useThoughts() {
+  const [draftThought, setDraftThought] = useState('');
+  const [thoughts, setThoughts] = useState<DeepThought[]>(initialThoughts);
+
+  function addThought(content: string) {
+    const newThought = createThought(content);
+    setThoughts([...thoughts, newThought]);
+  }
+
+  function updateThought(id: string, changes: ThoughtChanges) {
+    const thought = thoughts.find((t) => t.id === id);
+
+    if (!thought) return;
+
+    const updatedThought = { ...thought, ...changes };
+
+    setThoughts(thoughts.map((t) => (t.id === id ? updatedThought : t)));
+  }
+
+  function deleteThought(id: string) {
+    setThoughts(thoughts.filter((t) => t.id !== id));
+  }
+
+  function clearAll() {
+    setThoughts([]);
+  }
+
+  return {
+    draftThought,
+    setDraftThought,
+    thoughts,
+    addThought,
+    updateThought,
+    deleteThought,
+    clearAll,
+  };
+}
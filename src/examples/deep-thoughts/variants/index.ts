@@ -0,0 +1,27 @@
+import { defineLab } from '$/common/labs';
+import type { DeepThoughtsInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithUseCallback } from './use-callback';
+import { WithReactMemo } from './react-memo';
+import { WithUseReducer } from './use-reducer';
+
+export const deepThoughtsLab = defineLab<DeepThoughtsInputs>('deep-thoughts', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'Every keystroke in the draft re-renders every thought.',
+  },
+  useCallback: {
+    component: WithUseCallback,
+    description: 'Stable handlers, but nothing is memoized yet, so every thought still re-renders.',
+  },
+  memo: {
+    component: WithReactMemo,
+    label: 'React.memo',
+    description:
+      'Memoized thoughts with stable handlers: only the thought that changed re-renders.',
+  },
+  useReducer: {
+    component: WithUseReducer,
+    description: 'The same, with every update in one reducer and callbacks built on `dispatch`.',
+  },
+});
@@ -0,0 +1,24 @@
+import { memo } from 'react';
+
+import { Thought } from '../components/thought';
+import { ThoughtsPanel } from '../components/thoughts-panel';
+
+import { useStableThoughts } from './use-stable-thoughts';
+
+// Skips thoughts whose props are unchanged, which the stable handlers make possible
+export const MemoizedThought = memo(Thought);
+
+export const WithReactMemo = () => {
+  const { draftThought, setDraftThought, thoughts, ...actions } = useStableThoughts();
+
+  return (
+    <ThoughtsPanel
+      variant="memo"
+      thought={MemoizedThought}
+      draftThought={draftThought}
+      onDraftChange={setDraftThought}
+      thoughts={thoughts}
+      {...actions}
+    />
+  );
+};
@@ -0,0 +1,16 @@
+import { ThoughtsPanel } from '../components/thoughts-panel';
+import { useThoughts } from '../utilities/use-thoughts';
+
+export const Unoptimized = () => {
+  const { draftThought, setDraftThought, thoughts, ...actions } = useThoughts();
+
+  return (
+    <ThoughtsPanel
+      variant="unoptimized"
+      draftThought={draftThought}
+      onDraftChange={setDraftThought}
+      thoughts={thoughts}
+      {...actions}
+    />
+  );
+};
@@ -0,0 +1,18 @@
+import { ThoughtsPanel } from '../components/thoughts-panel';
+
+import { useStableThoughts } from './use-stable-thoughts';
+
+// Stable handlers alone change nothing yet: every thought still re-renders with the list
+export const WithUseCallback = () => {
+  const { draftThought, setDraftThought, thoughts, ...actions } = useStableThoughts();
+
+  return (
+    <ThoughtsPanel
+      variant="useCallback"
+      draftThought={draftThought}
+      onDraftChange={setDraftThought}
+      thoughts={thoughts}
+      {...actions}
+    />
+  );
+};
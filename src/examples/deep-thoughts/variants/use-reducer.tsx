@@ -0,0 +1,64 @@
+import { useCallback, useReducer, useState } from 'react';
+
+import type { DeepThought, ThoughtChanges } from '../types';
+
+import { ThoughtsPanel } from '../components/thoughts-panel';
+import { createThought } from '../utilities/create-thought';
+import { initialThoughts } from '../utilities/initial-thoughts';
+
+import { MemoizedThought } from './react-memo';
+
+type ThoughtAction =
+  | { type: 'ADD_THOUGHT'; content: string }
+  | { type: 'UPDATE_THOUGHT'; id: string; changes: ThoughtChanges }
+  | { type: 'DELETE_THOUGHT'; id: string }
+  | { type: 'CLEAR_ALL' };
+
+function thoughtsReducer(state: DeepThought[], action: ThoughtAction): DeepThought[] {
+  switch (action.type) {
+    case 'ADD_THOUGHT':
+      return [...state, createThought(action.content)];
+    case 'UPDATE_THOUGHT':
+      return state.map((t) => (t.id === action.id ? { ...t, ...action.changes } : t));
+    case 'DELETE_THOUGHT':
+      return state.filter((t) => t.id !== action.id);
+    case 'CLEAR_ALL':
+      return [];
+  }
+}
+
+export const WithUseReducer = () => {
+  const [draftThought, setDraftThought] = useState('');
+  const [thoughts, dispatch] = useReducer(thoughtsReducer, initialThoughts);
+
+  // `dispatch` is stable, so these callbacks never change
+  const addThought = useCallback((content: string) => {
+    dispatch({ type: 'ADD_THOUGHT', content });
+  }, []);
+
+  const updateThought = useCallback((id: string, changes: ThoughtChanges) => {
+    dispatch({ type: 'UPDATE_THOUGHT', id, changes });
+  }, []);
+
+  const deleteThought = useCallback((id: string) => {
+    dispatch({ type: 'DELETE_THOUGHT', id });
+  }, []);
+
+  const clearAll = useCallback(() => {
+    dispatch({ type: 'CLEAR_ALL' });
+  }, []);
+
+  return (
+    <ThoughtsPanel
+      variant="useReducer"
+      thought={MemoizedThought}
+      draftThought={draftThought}
+      onDraftChange={setDraftThought}
+      thoughts={thoughts}
+      addThought={addThought}
+      updateThought={updateThought}
+      deleteThought={deleteThought}
+      clearAll={clearAll}
+    />
+  );
+};
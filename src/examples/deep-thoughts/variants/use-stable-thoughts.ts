@@ -0,0 +1,39 @@
+import { useCallback, useState } from 'react';
+
+import type { DeepThought, ThoughtChanges } from '../types';
+
+import { createThought } from '../utilities/create-thought';
+import { initialThoughts } from '../utilities/initial-thoughts';
+
+/** Functional updates need no dependencies, so these handlers never change */
+export function useStableThoughts() {
+  const [draftThought, setDraftThought] = useState('');
+  const [thoughts, setThoughts] = useState<DeepThought[]>(initialThoughts);
+
+  const addThought = useCallback((content: string) => {
+    const newThought = createThought(content);
+    setThoughts((prev) => [...prev, newThought]);
+  }, []);
+
+  const updateThought = useCallback((id: string, changes: ThoughtChanges) => {
+    setThoughts((prev) => prev.map((t) => (t.id === id ? { ...t, ...changes } : t)));
+  }, []);
+
+  const deleteThought = useCallback((id: string) => {
+    setThoughts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const clearAll = useCallback(() => {
+    setThoughts([]);
+  }, []);
+
+  return {
+    draftThought,
+    setDraftThought,
+    thoughts,
+    addThought,
+    updateThought,
+    deleteThought,
+    clearAll,
+  };
+}
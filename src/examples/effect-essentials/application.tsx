@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Container } from '$components/container';
+import { useRenderTracker } from '$/common/instrumentation';
 import { UserSelector } from './components/user-selector';
 import { UserProfileCard } from './components/user-profile-card';
 import { ConsoleOutput } from './components/console-output';
@@ -8,13 +9,13 @@ import type { User, Version, ConsoleMessage } from './types';
 
 // Version 1: Missing Dependencies Problem
 function Version1MissingDeps() {
-	console.log('🔴 Version1MissingDeps rendered');
-
 	const [userId, setUserId] = useState(1);
 	const [user, setUser] = useState<User | null>(null);
 	const [loading, setLoading] = useState(false);
 	const [messages, setMessages] = useState<ConsoleMessage[]>([]);
 
+	const track = useRenderTracker('Version1MissingDeps', { state: { userId, user, loading, messages } });
+
 	const addMessage = (type: ConsoleMessage['type'], message: string, userName?: string) => {
 		setMessages((prev) => [
 			...prev,
@@ -52,7 +53,7 @@ function Version1MissingDeps() {
 	}, []); // ❌ Empty array - effect ignores userId changes!
 
 	return (
-		<div className="space-y-6">
+		<div ref={track} className="space-y-6">
 			<div className="rounded-md bg-red-50 p-4 dark:bg-red-900/20">
 				<h3 className="mb-2 font-semibold text-red-800 dark:text-red-200">
 					❌ Problem: Missing Dependencies
@@ -73,13 +74,13 @@ function Version1MissingDeps() {
 
 // Version 2: Race Condition Problem
 function Version2RaceCondition() {
-	console.log('🟡 Version2RaceCondition rendered');
-
 	const [userId, setUserId] = useState(1);
 	const [user, setUser] = useState<User | null>(null);
 	const [loading, setLoading] = useState(false);
 	const [messages, setMessages] = useState<ConsoleMessage[]>([]);
 
+	const track = useRenderTracker('Version2RaceCondition', { state: { userId, user, loading, messages } });
+
 	const addMessage = (
 		currentUserId: number,
 		type: ConsoleMessage['type'],
@@ -122,7 +123,7 @@ function Version2RaceCondition() {
 	}, [userId]); // ✅ Dependency is correct, but no cleanup!
 
 	return (
-		<div className="space-y-6">
+		<div ref={track} className="space-y-6">
 			<div className="rounded-md bg-yellow-50 p-4 dark:bg-yellow-900/20">
 				<h3 className="mb-2 font-semibold text-yellow-800 dark:text-yellow-200">
 					⚠️ Problem: Race Condition
@@ -143,14 +144,14 @@ function Version2RaceCondition() {
 
 // Version 3: No Cleanup (Memory Leak)
 function Version3NoCleanup() {
-	console.log('🟠 Version3NoCleanup rendered');
-
 	const [userId, setUserId] = useState(1);
 	const [user, setUser] = useState<User | null>(null);
 	const [loading, setLoading] = useState(false);
 	const [messages, setMessages] = useState<ConsoleMessage[]>([]);
 	const [show, setShow] = useState(true);
 
+	const track = useRenderTracker('Version3NoCleanup', { state: { userId, user, loading, messages, show } });
+
 	const addMessage = (
 		currentUserId: number,
 		type: ConsoleMessage['type'],
@@ -212,7 +213,7 @@ function Version3NoCleanup() {
 	}
 
 	return (
-		<div className="space-y-6">
+		<div ref={track} className="space-y-6">
 			<div className="rounded-md bg-orange-50 p-4 dark:bg-orange-900/20">
 				<h3 className="mb-2 font-semibold text-orange-800 dark:text-orange-200">
 					⚠️ Problem: No Cleanup (Memory Leak)
@@ -240,13 +241,13 @@ function Version3NoCleanup() {
 
 // Version 4: Fixed with Proper Cleanup
 function Version4Fixed() {
-	console.log('🟢 Version4Fixed rendered');
-
 	const [userId, setUserId] = useState(1);
 	const [user, setUser] = useState<User | null>(null);
 	const [loading, setLoading] = useState(false);
 	const [messages, setMessages] = useState<ConsoleMessage[]>([]);
 
+	const track = useRenderTracker('Version4Fixed', { state: { userId, user, loading, messages } });
+
 	const addMessage = (
 		currentUserId: number,
 		type: ConsoleMessage['type'],
@@ -304,7 +305,7 @@ function Version4Fixed() {
 	}, [userId]); // ✅ Correct dependencies + cleanup
 
 	return (
-		<div className="space-y-6">
+		<div ref={track} className="space-y-6">
 			<div className="rounded-md bg-green-50 p-4 dark:bg-green-900/20">
 				<h3 className="mb-2 font-semibold text-green-800 dark:text-green-200">✅ Fixed!</h3>
 				<p className="text-sm text-green-700 dark:text-green-300">
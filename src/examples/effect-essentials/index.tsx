@@ -1,4 +1,5 @@
 import { createRoot } from 'react-dom/client';
+import { RenderHeatmap } from '$components/render-heatmap';
 import Application from './application';
 
 import '$/common/index.css';
@@ -6,5 +7,10 @@ import '$/common/index.css';
 const root = document.getElementById('root');
 
 if (root) {
-  createRoot(root).render(<Application />);
+  createRoot(root).render(
+    <>
+      <Application />
+      <RenderHeatmap />
+    </>,
+  );
 }
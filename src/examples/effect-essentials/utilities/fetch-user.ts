@@ -1,7 +1,12 @@
-import { getUser } from '$/common/api';
+import { createClient, toId } from '$/common/api';
 import type { User } from '../types';
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// Random delay between 500ms and 2000ms for every user lookup, on this example's own client
+const client = createClient({
+	network: {
+		rules: [{ match: '/users/:id', delay: { min: 500, max: 2000 } }],
+	},
+});
 
 /**
  * Fetches a user with a random delay to simulate real-world API variability.
@@ -12,11 +17,7 @@ const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
  * @returns Promise resolving to the User data
  */
 export async function fetchUser(userId: number): Promise<User> {
-	// Random delay between 500ms and 2000ms
-	const delay = 500 + Math.random() * 1500;
-	await sleep(delay);
-
 	// Use the JSONPlaceholder API via our existing getUser utility
-	const user = await getUser(userId);
+	const user = await client.getUser(toId(userId));
 	return user;
 }
@@ -0,0 +1,19 @@
+import { benchmark, labVariants, step } from '$/common/benchmarks';
+import Application from './application';
+import { localStateLab } from './variants';
+
+benchmark('local-state: count to three', {
+  variants: labVariants(localStateLab, Application),
+  interact: async ({ screen, user }) => {
+    const increment = screen.getByRole('button', { name: '+' });
+    for (let count = 0; count < 3; count++) {
+      await step(() => user.click(increment));
+    }
+  },
+  budgets: {
+    // The counter owns its count, so the other widgets never re-render
+    colocatedState: {
+      renders: { 'colocatedState:TextWidget': 0, 'colocatedState:ColorWidget': 0 },
+    },
+  },
+});
@@ -1,15 +1,18 @@
 import { Card } from '$components/card';
 import { Input } from '$components/input';
 import { Button } from '$components/button';
+import { useRenderTracker } from '$/common/instrumentation';
 
 // WRONG: Receiving state and setter as props
 interface ColorWidgetWrongProps {
   color: string;
   onColorChange: (color: string) => void;
+  /** The lab variant showing the widget, so widgets of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function ColorWidgetWrong({ color, onColorChange }: ColorWidgetWrongProps) {
-  console.log('ColorWidget rendered');
+export function ColorWidgetWrong({ color, onColorChange, variant }: ColorWidgetWrongProps) {
+  const track = useRenderTracker(`${variant}:ColorWidget`, { props: { color, onColorChange } });
 
   const presetColors = [
     '#ef4444', // red
@@ -21,12 +24,12 @@ export function ColorWidgetWrong({ color, onColorChange }: ColorWidgetWrongProps
   ];
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h3 className="mb-4 text-lg font-semibold text-slate-900 dark:text-slate-100">
         Color Widget
       </h3>
       <p className="mb-4 text-sm text-slate-600 dark:text-slate-400">
-        Pick a color. Notice this re-renders when ANY widget updates because state is in the parent.
+        Pick a color. Check the console to see which updates re-render it.
       </p>
 
       <div className="space-y-4">
@@ -1,5 +1,6 @@
 import { Card } from '$components/card';
 import { Button } from '$components/button';
+import { useRenderTracker } from '$/common/instrumentation';
 
 // WRONG: Receiving state and setters as props
 interface CounterWidgetWrongProps {
@@ -7,18 +8,28 @@ interface CounterWidgetWrongProps {
   onIncrement: () => void;
   onDecrement: () => void;
   onReset: () => void;
+  /** The lab variant showing the widget, so widgets of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function CounterWidgetWrong({ count, onIncrement, onDecrement, onReset }: CounterWidgetWrongProps) {
-  console.log('CounterWidget rendered');
+export function CounterWidgetWrong({
+  count,
+  onIncrement,
+  onDecrement,
+  onReset,
+  variant,
+}: CounterWidgetWrongProps) {
+  const track = useRenderTracker(`${variant}:CounterWidget`, {
+    props: { count, onIncrement, onDecrement, onReset },
+  });
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h3 className="mb-4 text-lg font-semibold text-slate-900 dark:text-slate-100">
         Counter Widget
       </h3>
       <p className="mb-4 text-sm text-slate-600 dark:text-slate-400">
-        A simple counter. Notice this re-renders when ANY widget updates because state is in the parent.
+        A simple counter. Check the console to see which updates re-render it.
       </p>
 
       <div className="flex items-center justify-center space-x-4">
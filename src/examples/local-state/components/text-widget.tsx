@@ -1,26 +1,29 @@
 import { Card } from '$components/card';
 import { Textarea } from '$components/textarea';
 import { Button } from '$components/button';
+import { useRenderTracker } from '$/common/instrumentation';
 
 // WRONG: Receiving state and setter as props
 interface TextWidgetWrongProps {
   text: string;
   onTextChange: (text: string) => void;
+  /** The lab variant showing the widget, so widgets of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function TextWidgetWrong({ text, onTextChange }: TextWidgetWrongProps) {
-  console.log('TextWidget rendered');
+export function TextWidgetWrong({ text, onTextChange, variant }: TextWidgetWrongProps) {
+  const track = useRenderTracker(`${variant}:TextWidget`, { props: { text, onTextChange } });
 
   const wordCount = text.trim() ? text.trim().split(/\s+/).length : 0;
   const charCount = text.length;
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <h3 className="mb-4 text-lg font-semibold text-slate-900 dark:text-slate-100">
         Text Widget
       </h3>
       <p className="mb-4 text-sm text-slate-600 dark:text-slate-400">
-        Type something. Notice this re-renders when ANY widget updates because state is in the parent.
+        Type something. Check the console to see which updates re-render it.
       </p>
 
       <Textarea
@@ -1,15 +1,21 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { RenderHeatmap } from '$components/render-heatmap';
+import { renderStore } from '$/common/instrumentation';
 import Application from './application';
 
 import '$/common/index.css';
 
+// This lab's instructions point at the console, so log every tracked render there
+renderStore.setLogging(true);
+
 const root = document.getElementById('root');
 
 if (root) {
   createRoot(root).render(
     <StrictMode>
       <Application />
+      <RenderHeatmap />
     </StrictMode>
   );
 }
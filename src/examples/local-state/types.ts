@@ -9,3 +9,9 @@ export interface TextState {
 export interface ColorState {
   color: string;
 }
+
+/**
+ * Local State's variants own their widgets' state: where that state lives is what they
+ * compare, so the application has no inputs to hand them
+ */
+export type LocalStateInputs = Record<string, never>;
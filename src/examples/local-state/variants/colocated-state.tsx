@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { CounterWidgetWrong } from '../components/counter-widget';
+import { TextWidgetWrong } from '../components/text-widget';
+import { ColorWidgetWrong } from '../components/color-widget';
+
+const variant = 'colocatedState';
+
+// ✅ State lives where it's used, so an update only re-renders the widget that owns it
+
+const CounterWidget = () => {
+  const [count, setCount] = useState(0);
+
+  return (
+    <CounterWidgetWrong
+      variant={variant}
+      count={count}
+      onIncrement={() => setCount(count + 1)}
+      onDecrement={() => setCount(count - 1)}
+      onReset={() => setCount(0)}
+    />
+  );
+};
+
+const TextWidget = () => {
+  const [text, setText] = useState('');
+  return <TextWidgetWrong variant={variant} text={text} onTextChange={setText} />;
+};
+
+const ColorWidget = () => {
+  const [color, setColor] = useState('#3b82f6');
+  return <ColorWidgetWrong variant={variant} color={color} onColorChange={setColor} />;
+};
+
+export const WithColocatedState = () => (
+  <section className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+    <CounterWidget />
+    <TextWidget />
+    <ColorWidget />
+  </section>
+);
@@ -0,0 +1,16 @@
+import { defineLab } from '$/common/labs';
+import type { LocalStateInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithColocatedState } from './colocated-state';
+
+export const localStateLab = defineLab<LocalStateInputs>('local-state', {
+  unoptimized: {
+    component: Unoptimized,
+    description: "Every widget's state lives in the parent, so any update re-renders all three.",
+  },
+  colocatedState: {
+    component: WithColocatedState,
+    label: 'Colocated state',
+    description: 'Each widget owns its state, so only the one you use re-renders.',
+  },
+});
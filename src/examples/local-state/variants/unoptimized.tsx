@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import { CounterWidgetWrong } from '../components/counter-widget';
+import { TextWidgetWrong } from '../components/text-widget';
+import { ColorWidgetWrong } from '../components/color-widget';
+
+const variant = 'unoptimized';
+
+export const Unoptimized = () => {
+  // ANTI-PATTERN: All widget state is lifted to the parent
+  // Even though these widgets are completely independent!
+  const [count, setCount] = useState(0);
+  const [text, setText] = useState('');
+  const [color, setColor] = useState('#3b82f6');
+
+  // Every widget needs its own set of handlers
+  const incrementCount = () => setCount(count + 1);
+  const decrementCount = () => setCount(count - 1);
+  const resetCount = () => setCount(0);
+
+  return (
+    <section className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+      <CounterWidgetWrong
+        variant={variant}
+        count={count}
+        onIncrement={incrementCount}
+        onDecrement={decrementCount}
+        onReset={resetCount}
+      />
+      <TextWidgetWrong variant={variant} text={text} onTextChange={setText} />
+      <ColorWidgetWrong variant={variant} color={color} onColorChange={setColor} />
+    </section>
+  );
+};
@@ -0,0 +1,17 @@
+import { benchmark, labVariants, replaceValue } from '$/common/benchmarks';
+import Application from './application';
+import { memoManiaLab } from './variants';
+
+benchmark('memo-mania: change the first input to 35', {
+  variants: labVariants(memoManiaLab, Application),
+  interact: async ({ screen, user }) => {
+    const [first] = screen.getAllByLabelText('Input number');
+    await replaceValue(user, first, '35');
+  },
+  budgets: {
+    // Clearing the field and two keystrokes re-render the first card only
+    useCallback: {
+      renders: { 'useCallback:CalculationCard:1': 3, 'useCallback:CalculationCard:2': 0 },
+    },
+  },
+});
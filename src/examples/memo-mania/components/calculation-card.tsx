@@ -1,35 +1,50 @@
 import { Button } from '$components/button';
 import { Input } from '$components/input';
 import { Card } from '$components/card';
+import { useRenderTracker } from '$/common/instrumentation';
 import type { Calculation } from '../types';
-import { calculate, getCalculationLabel, getCalculationDescription } from '../utilities/expensive-calculations';
+import {
+  calculate,
+  getCalculationLabel,
+  getCalculationDescription,
+} from '../utilities/expensive-calculations';
 
-interface CalculationCardProps {
+export interface CalculationCardProps {
   calculation: Calculation;
   onUpdate: (id: string, input: number) => void;
   onDelete: (id: string) => void;
+  /** The lab variant showing the card, so cards of two variants side by side are tracked apart */
+  variant: string;
 }
 
-export function CalculationCard({ calculation, onUpdate, onDelete }: CalculationCardProps) {
-  // This expensive calculation runs on EVERY render of ANY card
-  const result = calculate(calculation.type, calculation.input);
+interface CalculationCardViewProps extends CalculationCardProps {
+  result: string;
+}
+
+/** The card itself; each variant's card decides how often `result` is calculated */
+export function CalculationCardView({
+  calculation,
+  result,
+  onUpdate,
+  onDelete,
+  variant,
+}: CalculationCardViewProps) {
+  const track = useRenderTracker(`${variant}:CalculationCard:${calculation.id}`, {
+    props: { calculation, onUpdate, onDelete },
+  });
 
   const label = getCalculationLabel(calculation.type);
   const description = getCalculationDescription(calculation.type);
 
   return (
-    <Card className="p-6">
+    <Card ref={track} className="p-6">
       <div className="space-y-4">
         <div className="flex items-start justify-between">
           <div>
             <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{label}</h3>
             <p className="text-sm text-slate-600 dark:text-slate-400">{description}</p>
           </div>
-          <Button
-            size="small"
-            variant="danger"
-            onClick={() => onDelete(calculation.id)}
-          >
+          <Button size="small" variant="danger" onClick={() => onDelete(calculation.id)}>
             Delete
           </Button>
         </div>
@@ -55,3 +70,10 @@ export function CalculationCard({ calculation, onUpdate, onDelete }: Calculation
     </Card>
   );
 }
+
+export function CalculationCard(props: CalculationCardProps) {
+  // This expensive calculation runs on EVERY render of ANY card
+  const result = calculate(props.calculation.type, props.calculation.input);
+
+  return <CalculationCardView {...props} result={result} />;
+}
@@ -1,13 +1,24 @@
+import type { ComponentType } from 'react';
 import type { Calculation } from '../types';
 import { CalculationCard } from './calculation-card';
+import type { CalculationCardProps } from './calculation-card';
 
 interface CalculationListProps {
   calculations: Calculation[];
   onUpdate: (id: string, input: number) => void;
   onDelete: (id: string) => void;
+  variant: string;
+  /** The card each variant renders; defaults to the unoptimized one */
+  card?: ComponentType<CalculationCardProps>;
 }
 
-export function CalculationList({ calculations, onUpdate, onDelete }: CalculationListProps) {
+export function CalculationList({
+  calculations,
+  onUpdate,
+  onDelete,
+  variant,
+  card: Card = CalculationCard,
+}: CalculationListProps) {
   if (calculations.length === 0) {
     return (
       <div className="py-12 text-center">
@@ -21,11 +32,12 @@ export function CalculationList({ calculations, onUpdate, onDelete }: Calculatio
   return (
     <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
       {calculations.map((calculation) => (
-        <CalculationCard
+        <Card
           key={calculation.id}
           calculation={calculation}
           onUpdate={onUpdate}
           onDelete={onDelete}
+          variant={variant}
         />
       ))}
     </div>
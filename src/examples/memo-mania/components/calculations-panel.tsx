@@ -0,0 +1,28 @@
+import type { ComponentProps } from 'react';
+import { Button } from '$components/button';
+import { CalculationList } from './calculation-list';
+
+interface CalculationsPanelProps extends ComponentProps<typeof CalculationList> {
+  onAdd: () => void;
+}
+
+export function CalculationsPanel({ onAdd, ...listProps }: CalculationsPanelProps) {
+  const { calculations } = listProps;
+
+  return (
+    <div className="space-y-8">
+      <section className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {calculations.length} {calculations.length === 1 ? 'calculation' : 'calculations'}
+          </p>
+        </div>
+        <Button onClick={onAdd}>Add Random Calculation</Button>
+      </section>
+
+      <section>
+        <CalculationList {...listProps} />
+      </section>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
+import { RenderDiffPanel } from '$components/render-diff-panel';
+import { RenderHeatmap } from '$components/render-heatmap';
 import Application from './application';
 
 import '$/common/index.css';
@@ -10,6 +12,8 @@ if (root) {
   createRoot(root).render(
     <StrictMode>
       <Application />
+      <RenderHeatmap />
+      <RenderDiffPanel />
     </StrictMode>
   );
 }
@@ -10,3 +10,9 @@ export interface CalculationResult {
   value: string;
   duration: number;
 }
+
+/**
+ * Memo Mania's variants own their calculations: `useCallback` belongs in the component that
+ * holds the state, so the application has no inputs to hand them
+ */
+export type MemoManiaInputs = Record<string, never>;
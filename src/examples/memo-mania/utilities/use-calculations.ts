@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import type { Calculation, CalculationType } from '../types';
+
+const CALCULATION_TYPES: CalculationType[] = [
+  'fibonacci',
+  'factorial',
+  'primeFactors',
+  'sumOfDivisors',
+];
+
+export const INITIAL_CALCULATIONS: Calculation[] = [
+  { id: '1', type: 'fibonacci', input: 30 },
+  { id: '2', type: 'factorial', input: 15 },
+];
+
+export function randomCalculation(): Calculation {
+  const randomType = CALCULATION_TYPES[Math.floor(Math.random() * CALCULATION_TYPES.length)];
+  const defaultInput = randomType === 'fibonacci' ? 25 : 10;
+
+  return {
+    id: Date.now().toString(),
+    type: randomType,
+    input: defaultInput,
+  };
+}
+
+/**
+ * The calculations and their handlers as the unoptimized application wrote them: every
+ * render creates new functions, so cards that receive them always see changed props.
+ */
+export function useCalculations() {
+  const [calculations, setCalculations] = useState<Calculation[]>(INITIAL_CALCULATIONS);
+
+  function addCalculation() {
+    setCalculations([...calculations, randomCalculation()]);
+  }
+
+  function updateCalculation(id: string, input: number) {
+    setCalculations(calculations.map((calc) => (calc.id === id ? { ...calc, input } : calc)));
+  }
+
+  function deleteCalculation(id: string) {
+    setCalculations(calculations.filter((calc) => calc.id !== id));
+  }
+
+  return { calculations, addCalculation, updateCalculation, deleteCalculation };
+}
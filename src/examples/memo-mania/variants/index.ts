@@ -0,0 +1,26 @@
+import { defineLab } from '$/common/labs';
+import type { MemoManiaInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithUseMemo } from './use-memo';
+import { WithReactMemo } from './react-memo';
+import { WithUseCallback } from './use-callback';
+
+export const memoManiaLab = defineLab<MemoManiaInputs>('memo-mania', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'Every card re-renders and recalculates whenever any card changes.',
+  },
+  useMemo: {
+    component: WithUseMemo,
+    description: 'Every card still re-renders, but only the changed one recalculates.',
+  },
+  memo: {
+    component: WithReactMemo,
+    label: 'React.memo',
+    description: 'Memoized cards, defeated by callbacks that are new on every render.',
+  },
+  useCallback: {
+    component: WithUseCallback,
+    description: 'Stable callbacks as well, so only the changed card re-renders.',
+  },
+});
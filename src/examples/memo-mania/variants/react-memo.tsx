@@ -0,0 +1,22 @@
+import { memo } from 'react';
+import { CalculationsPanel } from '../components/calculations-panel';
+import { useCalculations } from '../utilities/use-calculations';
+import { CalculationCardWithUseMemo } from './use-memo';
+
+// Skips cards whose props are unchanged, but `onUpdate` and `onDelete` are new every render
+export const MemoizedCalculationCard = memo(CalculationCardWithUseMemo);
+
+export const WithReactMemo = () => {
+  const { calculations, addCalculation, updateCalculation, deleteCalculation } = useCalculations();
+
+  return (
+    <CalculationsPanel
+      variant="memo"
+      card={MemoizedCalculationCard}
+      calculations={calculations}
+      onAdd={addCalculation}
+      onUpdate={updateCalculation}
+      onDelete={deleteCalculation}
+    />
+  );
+};
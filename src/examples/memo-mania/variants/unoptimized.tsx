@@ -0,0 +1,16 @@
+import { CalculationsPanel } from '../components/calculations-panel';
+import { useCalculations } from '../utilities/use-calculations';
+
+export const Unoptimized = () => {
+  const { calculations, addCalculation, updateCalculation, deleteCalculation } = useCalculations();
+
+  return (
+    <CalculationsPanel
+      variant="unoptimized"
+      calculations={calculations}
+      onAdd={addCalculation}
+      onUpdate={updateCalculation}
+      onDelete={deleteCalculation}
+    />
+  );
+};
@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import { CalculationsPanel } from '../components/calculations-panel';
+import type { Calculation } from '../types';
+import { INITIAL_CALCULATIONS, randomCalculation } from '../utilities/use-calculations';
+import { MemoizedCalculationCard } from './react-memo';
+
+export const WithUseCallback = () => {
+  const [calculations, setCalculations] = useState<Calculation[]>(INITIAL_CALCULATIONS);
+
+  // Functional updates need no dependencies, so the handlers never change
+  const addCalculation = useCallback(() => {
+    setCalculations((prev) => [...prev, randomCalculation()]);
+  }, []);
+
+  const updateCalculation = useCallback((id: string, input: number) => {
+    setCalculations((prev) => prev.map((calc) => (calc.id === id ? { ...calc, input } : calc)));
+  }, []);
+
+  const deleteCalculation = useCallback((id: string) => {
+    setCalculations((prev) => prev.filter((calc) => calc.id !== id));
+  }, []);
+
+  return (
+    <CalculationsPanel
+      variant="useCallback"
+      card={MemoizedCalculationCard}
+      calculations={calculations}
+      onAdd={addCalculation}
+      onUpdate={updateCalculation}
+      onDelete={deleteCalculation}
+    />
+  );
+};
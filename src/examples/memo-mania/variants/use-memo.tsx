@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { CalculationCardView } from '../components/calculation-card';
+import type { CalculationCardProps } from '../components/calculation-card';
+import { CalculationsPanel } from '../components/calculations-panel';
+import { calculate } from '../utilities/expensive-calculations';
+import { useCalculations } from '../utilities/use-calculations';
+
+export function CalculationCardWithUseMemo(props: CalculationCardProps) {
+  const { type, input } = props.calculation;
+  // Every card still re-renders, but only the one whose input changed calculates again
+  const result = useMemo(() => calculate(type, input), [type, input]);
+
+  return <CalculationCardView {...props} result={result} />;
+}
+
+export const WithUseMemo = () => {
+  const { calculations, addCalculation, updateCalculation, deleteCalculation } = useCalculations();
+
+  return (
+    <CalculationsPanel
+      variant="useMemo"
+      card={CalculationCardWithUseMemo}
+      calculations={calculations}
+      onAdd={addCalculation}
+      onUpdate={updateCalculation}
+      onDelete={deleteCalculation}
+    />
+  );
+};
@@ -0,0 +1,17 @@
+import { benchmark, labVariants, typeInto } from '$/common/benchmarks';
+import Application from './application';
+import { pokamokaLab } from './variants';
+
+const query = 'pika';
+
+benchmark('pokamoka: search for "pika"', {
+  variants: labVariants(pokamokaLab, Application),
+  interact: ({ screen, user }) => typeInto(user, screen.getByLabelText('Search Pokemon'), query),
+  budgets: {
+    // Each keystroke renders with the old query, then the transition's `isPending` and the
+    // transition itself each render once more
+    useTransition: { renders: { 'pokamoka:useTransition': 3 * query.length } },
+    // Each keystroke renders with the old query, then once more when the deferred value catches up
+    useDeferredValue: { renders: { 'pokamoka:useDeferredValue': 2 * query.length } },
+  },
+});
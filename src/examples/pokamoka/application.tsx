@@ -1,13 +1,12 @@
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
 
 import { Container } from '$components/container';
 import { Input } from '$components/input';
-import { Pokemon } from './components/pokemon';
-import { filterPokemon } from './utilities/filter-pokemon';
+import { LabVariants } from '$/common/labs';
+import { pokamokaLab } from './variants';
 
 const Application = () => {
   const [searchQuery, setSearchQuery] = useState('');
-  const filteredPokemon = useMemo(() => filterPokemon(searchQuery), [searchQuery]);
 
   return (
     <Container className="space-y-8">
@@ -19,11 +18,7 @@ const Application = () => {
           onChange={(e) => setSearchQuery(e.target.value)}
         />
       </section>
-      <section className="grid grid-cols-1 gap-8 md:grid-cols-2 lg:grid-cols-3">
-        {filteredPokemon.map((pokemon) => (
-          <Pokemon key={pokemon.id} {...pokemon} />
-        ))}
-      </section>
+      <LabVariants lab={pokamokaLab} inputs={{ searchQuery }} />
     </Container>
   );
 };
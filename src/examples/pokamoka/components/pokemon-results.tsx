@@ -0,0 +1,24 @@
+import type { filterPokemon } from '../utilities/filter-pokemon';
+import { Pokemon } from './pokemon';
+
+interface PokemonResultsProps {
+  pokemon: ReturnType<typeof filterPokemon>;
+  isSearching?: boolean;
+}
+
+export const PokemonResults = ({ pokemon, isSearching = false }: PokemonResultsProps) => {
+  return (
+    <div className="space-y-4">
+      {isSearching && <div className="text-sm text-slate-500">Searching…</div>}
+      <section
+        className={`grid grid-cols-1 gap-8 transition-opacity md:grid-cols-2 lg:grid-cols-3 ${
+          isSearching ? 'opacity-50' : 'opacity-100'
+        }`}
+      >
+        {pokemon.map((entry) => (
+          <Pokemon key={entry.id} {...entry} />
+        ))}
+      </section>
+    </div>
+  );
+};
@@ -74,3 +74,8 @@ export interface Pokemon {
 }
 
 export type Pokedex = Pokemon[];
+
+/** What every variant is given; the application owns the search box so variants see the same query */
+export interface PokamokaInputs {
+  searchQuery: string;
+}
@@ -0,0 +1,20 @@
+import { defineLab } from '$/common/labs';
+import type { PokamokaInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithUseTransition } from './use-transition';
+import { WithUseDeferredValue } from './use-deferred-value';
+
+export const pokamokaLab = defineLab<PokamokaInputs>('pokamoka', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'Filters and renders the results in the same update as each keystroke.',
+  },
+  useTransition: {
+    component: WithUseTransition,
+    description: 'Filters in a transition that the next keystroke can interrupt.',
+  },
+  useDeferredValue: {
+    component: WithUseDeferredValue,
+    description: 'Filters a deferred copy of the query that lags behind the input.',
+  },
+});
@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { PokemonResults } from '../components/pokemon-results';
+import type { PokamokaInputs } from '../types';
+import { filterPokemon } from '../utilities/filter-pokemon';
+
+export const Unoptimized = ({ searchQuery }: PokamokaInputs) => {
+  // Filters and renders every card in the same update as the keystroke
+  const filteredPokemon = useMemo(() => filterPokemon(searchQuery), [searchQuery]);
+
+  return <PokemonResults pokemon={filteredPokemon} />;
+};
@@ -0,0 +1,13 @@
+import { useDeferredValue, useMemo } from 'react';
+import { PokemonResults } from '../components/pokemon-results';
+import type { PokamokaInputs } from '../types';
+import { filterPokemon } from '../utilities/filter-pokemon';
+
+export const WithUseDeferredValue = ({ searchQuery }: PokamokaInputs) => {
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const isSearching = searchQuery !== deferredSearchQuery;
+
+  const filteredPokemon = useMemo(() => filterPokemon(deferredSearchQuery), [deferredSearchQuery]);
+
+  return <PokemonResults pokemon={filteredPokemon} isSearching={isSearching} />;
+};
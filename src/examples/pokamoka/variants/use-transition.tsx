@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { PokemonResults } from '../components/pokemon-results';
+import type { PokamokaInputs } from '../types';
+import { filterPokemon } from '../utilities/filter-pokemon';
+
+export const WithUseTransition = ({ searchQuery }: PokamokaInputs) => {
+  const [filterQuery, setFilterQuery] = useState(searchQuery);
+  const [isPending, startTransition] = useTransition();
+
+  // The search box is shared between variants, so the transition starts when the new query
+  // arrives; on its own this would be the input's `onChange` (see the README)
+  useEffect(() => {
+    startTransition(() => {
+      setFilterQuery(searchQuery);
+    });
+  }, [searchQuery]);
+
+  const filteredPokemon = useMemo(() => filterPokemon(filterQuery), [filterQuery]);
+
+  return <PokemonResults pokemon={filteredPokemon} isSearching={isPending} />;
+};
@@ -0,0 +1,26 @@
+import { benchmark, labVariants, step, typeInto } from '$/common/benchmarks';
+import Application from './application';
+import { primeTimeLab } from './variants';
+
+// Clearing the field and five keystrokes change the limit; hiding the primes doesn't
+const limitChanges = 6;
+const updates = limitChanges + 1;
+
+benchmark('prime-time: type a limit of 20000, then hide the primes', {
+  variants: labVariants(primeTimeLab, Application),
+  interact: async ({ screen, user }) => {
+    const limit = screen.getByLabelText('Find primes up to:');
+    await step(() => user.clear(limit));
+    await typeInto(user, limit, '20000');
+    await step(() => user.click(screen.getByLabelText('Show the primes')));
+  },
+  budgets: {
+    // One render per update
+    useMemo: { renders: { 'prime-time:useMemo': updates } },
+    // A new limit renders with the old one first, then the transition's `isPending` and
+    // the transition itself each render once more
+    useTransition: { renders: { 'prime-time:useTransition': updates + 2 * limitChanges } },
+    // A new limit renders with the old one first, then once more when the deferred value catches up
+    useDeferredValue: { renders: { 'prime-time:useDeferredValue': updates + limitChanges } },
+  },
+});
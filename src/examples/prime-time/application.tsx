@@ -1,18 +1,13 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
+import { Checkbox } from '$components/checkbox';
 import { Container } from '$components/container';
 import { Input } from '$components/input';
-import { PrimeGrid } from './components/prime-grid';
-import { Stats } from './components/stats';
-import { calculatePrimes } from './utilities/calculate-primes';
+import { LabVariants } from '$/common/labs';
+import { primeTimeLab } from './variants';
 
 function Application() {
   const [limit, setLimit] = useState(10000);
-
-  // Expensive computation: calculate all prime numbers up to limit
-  // This runs on every input change, making typing feel laggy
-  const primes = useMemo(() => calculatePrimes(limit), [limit]);
-
-  const largestPrime = primes.length > 0 ? primes[primes.length - 1] : 0;
+  const [showGrid, setShowGrid] = useState(true);
 
   return (
     <Container className="my-8 space-y-8">
@@ -34,18 +29,14 @@ function Application() {
           max={100000}
           placeholder="Enter a number (e.g., 10000)"
         />
+        <Checkbox
+          label="Show the primes"
+          checked={showGrid}
+          onChange={(e) => setShowGrid(e.target.checked)}
+        />
       </section>
 
-      <section>
-        <Stats count={primes.length} largestPrime={largestPrime} limit={limit} />
-      </section>
-
-      <section>
-        <h2 className="mb-4 text-xl font-semibold text-slate-900 dark:text-slate-100">
-          Prime Numbers Found
-        </h2>
-        <PrimeGrid primes={primes} />
-      </section>
+      <LabVariants lab={primeTimeLab} inputs={{ limit, showGrid }} />
     </Container>
   );
 }
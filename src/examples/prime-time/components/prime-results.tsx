@@ -0,0 +1,36 @@
+import { PrimeGrid } from './prime-grid';
+import { Stats } from './stats';
+
+interface PrimeResultsProps {
+  primes: number[];
+  /** The limit `primes` was calculated for, which may trail the input */
+  limit: number;
+  showGrid: boolean;
+  isCalculating?: boolean;
+}
+
+export const PrimeResults = ({
+  primes,
+  limit,
+  showGrid,
+  isCalculating = false,
+}: PrimeResultsProps) => {
+  const largestPrime = primes.length > 0 ? primes[primes.length - 1] : 0;
+
+  return (
+    <div className={`space-y-8 transition-opacity ${isCalculating ? 'opacity-50' : 'opacity-100'}`}>
+      <section>
+        <Stats count={primes.length} largestPrime={largestPrime} limit={limit} />
+      </section>
+
+      {showGrid && (
+        <section>
+          <h2 className="mb-4 text-xl font-semibold text-slate-900 dark:text-slate-100">
+            Prime Numbers Found
+          </h2>
+          <PrimeGrid primes={primes} />
+        </section>
+      )}
+    </div>
+  );
+};
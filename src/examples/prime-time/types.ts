@@ -4,3 +4,9 @@ export interface PrimeResult {
   count: number;
   calculationTime: number;
 }
+
+/** What every variant is given; the application owns these so variants see identical inputs */
+export interface PrimeTimeInputs {
+  limit: number;
+  showGrid: boolean;
+}
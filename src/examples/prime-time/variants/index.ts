@@ -0,0 +1,25 @@
+import { defineLab } from '$/common/labs';
+import type { PrimeTimeInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithUseMemo } from './use-memo';
+import { WithUseTransition } from './use-transition';
+import { WithUseDeferredValue } from './use-deferred-value';
+
+export const primeTimeLab = defineLab<PrimeTimeInputs>('prime-time', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'Calculates the primes on every render, synchronously.',
+  },
+  useMemo: {
+    component: WithUseMemo,
+    description: 'Caches the primes per limit. Typing is still blocked by each calculation.',
+  },
+  useTransition: {
+    component: WithUseTransition,
+    description: 'Moves the calculation into a transition that typing can interrupt.',
+  },
+  useDeferredValue: {
+    component: WithUseDeferredValue,
+    description: 'Calculates from a deferred copy of the limit that lags behind the input.',
+  },
+});
@@ -0,0 +1,10 @@
+import { PrimeResults } from '../components/prime-results';
+import type { PrimeTimeInputs } from '../types';
+import { calculatePrimes } from '../utilities/calculate-primes';
+
+export const Unoptimized = ({ limit, showGrid }: PrimeTimeInputs) => {
+  // Recalculated on every render, even when only `showGrid` changed
+  const primes = calculatePrimes(limit);
+
+  return <PrimeResults primes={primes} limit={limit} showGrid={showGrid} />;
+};
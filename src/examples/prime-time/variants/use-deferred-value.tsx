@@ -0,0 +1,20 @@
+import { useDeferredValue, useMemo } from 'react';
+import { PrimeResults } from '../components/prime-results';
+import type { PrimeTimeInputs } from '../types';
+import { calculatePrimes } from '../utilities/calculate-primes';
+
+export const WithUseDeferredValue = ({ limit, showGrid }: PrimeTimeInputs) => {
+  const deferredLimit = useDeferredValue(limit);
+  const isCalculating = limit !== deferredLimit;
+
+  const primes = useMemo(() => calculatePrimes(deferredLimit), [deferredLimit]);
+
+  return (
+    <PrimeResults
+      primes={primes}
+      limit={deferredLimit}
+      showGrid={showGrid}
+      isCalculating={isCalculating}
+    />
+  );
+};
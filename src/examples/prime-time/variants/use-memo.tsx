@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { PrimeResults } from '../components/prime-results';
+import type { PrimeTimeInputs } from '../types';
+import { calculatePrimes } from '../utilities/calculate-primes';
+
+export const WithUseMemo = ({ limit, showGrid }: PrimeTimeInputs) => {
+  // Toggling the grid reuses the primes, but every keystroke still calculates synchronously
+  const primes = useMemo(() => calculatePrimes(limit), [limit]);
+
+  return <PrimeResults primes={primes} limit={limit} showGrid={showGrid} />;
+};
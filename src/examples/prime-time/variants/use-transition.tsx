@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { PrimeResults } from '../components/prime-results';
+import type { PrimeTimeInputs } from '../types';
+import { calculatePrimes } from '../utilities/calculate-primes';
+
+export const WithUseTransition = ({ limit, showGrid }: PrimeTimeInputs) => {
+  const [calculationLimit, setCalculationLimit] = useState(limit);
+  const [isPending, startTransition] = useTransition();
+
+  // The input is shared between variants, so the transition starts when the new limit
+  // arrives; on its own this would be the input's `onChange` (see the README)
+  useEffect(() => {
+    startTransition(() => {
+      setCalculationLimit(limit);
+    });
+  }, [limit]);
+
+  const primes = useMemo(() => calculatePrimes(calculationLimit), [calculationLimit]);
+
+  return (
+    <PrimeResults
+      primes={primes}
+      limit={calculationLimit}
+      showGrid={showGrid}
+      isCalculating={isPending}
+    />
+  );
+};
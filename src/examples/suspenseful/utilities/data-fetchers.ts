@@ -1,33 +1,52 @@
-import { getUser, listPostsForUser, listTodosForUser } from '$/common/api';
+import {
+  createClient,
+  createReplayTransport,
+  preloadResource,
+  routes,
+  toId,
+  type Recording,
+} from '$/common/api';
 import type { User, Post, Todo } from '../types';
+import timeline from '../fixtures/timeline.json';
 
-// Add artificial delay to simulate real network conditions
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Add artificial delay to simulate real network conditions, on this example's own client
+// so other code using the default one keeps its own timing. VITE_API_REPLAY=true answers
+// from the recorded timeline instead, with the same delays on every run.
+const client =
+  import.meta.env.VITE_API_REPLAY === 'true'
+    ? createClient({ fetch: createReplayTransport(timeline as Recording) })
+    : createClient({
+        network: {
+          rules: [
+            { match: '/users/:id', delay: 800 },
+            { match: '/users/:id/posts', delay: 1200 }, // Slower API
+            { match: '/users/:id/todos', delay: 1500 }, // Even slower API
+          ],
+        },
+      });
 
 export async function fetchUser(userId: number): Promise<User> {
-  await delay(800); // Simulate network delay
-  return getUser(userId);
+  return client.getUser(toId(userId));
 }
 
 export async function fetchUserPosts(userId: number): Promise<Post[]> {
-  await delay(1200); // Slower API
-  return listPostsForUser(userId, { _limit: 5 });
+  return client.listPostsForUser(toId(userId), { _limit: 5 });
 }
 
 export async function fetchUserTodos(userId: number): Promise<Todo[]> {
-  await delay(1500); // Even slower API
-  return listTodosForUser(userId, { _limit: 8 });
+  return client.listTodosForUser(toId(userId), { _limit: 8 });
 }
 
-// Create promises that can be used with the use() hook
-export function createUserPromise(userId: number) {
-  return fetchUser(userId);
+// Create promises that can be used with the use() hook.
+// These are cached per user, so calling them again during render returns the same promise.
+export function createUserPromise(userId: number): Promise<User> {
+  return preloadResource(routes.users.item(toId(userId)).path, undefined, client);
 }
 
-export function createUserPostsPromise(userId: number) {
-  return fetchUserPosts(userId);
+export function createUserPostsPromise(userId: number): Promise<Post[]> {
+  return preloadResource(routes.users.item(toId(userId)).posts(), { _limit: 5 }, client);
 }
 
-export function createUserTodosPromise(userId: number) {
-  return fetchUserTodos(userId);
+export function createUserTodosPromise(userId: number): Promise<Todo[]> {
+  return preloadResource(routes.users.item(toId(userId)).todos(), { _limit: 8 }, client);
 }
@@ -0,0 +1,12 @@
+import { benchmark, dragRange, labVariants } from '$/common/benchmarks';
+import Application from './application';
+import { throwingShapesLab } from './variants';
+
+benchmark('throwing-shapes: drag from 1,000 to 5,000 shapes', {
+  variants: labVariants(throwingShapesLab, Application),
+  interact: ({ screen }) => dragRange(screen.getByRole('slider'), 5000),
+  budgets: {
+    // Four steps of 1,000; each renders with the old count, then once more with the new one
+    useDeferredValue: { renders: { 'throwing-shapes:useDeferredValue': 2 * 4 } },
+  },
+});
@@ -1,14 +1,12 @@
 import { Container } from '$components/container';
 import { Range } from '$components/range';
-import { useMemo, useState } from 'react';
-import { ShapesGrid } from './components/shapes-grid';
-import { generateShapes } from './utilities/generate-shapes';
+import { LabVariants } from '$/common/labs';
+import { useState } from 'react';
+import { throwingShapesLab } from './variants';
 
 function Application() {
   const [shapeCount, setShapeCount] = useState(1000);
 
-  const shapes = useMemo(() => generateShapes(shapeCount), [shapeCount]);
-
   return (
     <Container className="my-8 space-y-8">
       <section>
@@ -21,7 +19,7 @@ function Application() {
         </p>
       </section>
 
-      <section className="space-y-4">
+      <section>
         <Range
           label={`Number of shapes: ${shapeCount.toLocaleString()}`}
           min={1000}
@@ -30,14 +28,9 @@ function Application() {
           value={shapeCount}
           onChange={setShapeCount}
         />
-        <p className="text-sm text-slate-500 dark:text-slate-400">
-          Currently rendering {shapes.length.toLocaleString()} shapes.
-        </p>
       </section>
 
-      <section>
-        <ShapesGrid shapes={shapes} />
-      </section>
+      <LabVariants lab={throwingShapesLab} inputs={{ shapeCount }} />
     </Container>
   );
 }
@@ -0,0 +1,24 @@
+import type { Shape as ShapeType } from '../types';
+import { ShapesGrid } from './shapes-grid';
+
+interface ShapesResultsProps {
+  shapes: ShapeType[];
+  /** The count the slider is at, which `shapes` may trail */
+  shapeCount: number;
+  isUpdating?: boolean;
+}
+
+export const ShapesResults = ({ shapes, shapeCount, isUpdating = false }: ShapesResultsProps) => {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-500 dark:text-slate-400">
+        {isUpdating
+          ? `Updating to ${shapeCount.toLocaleString()} shapes...`
+          : `Currently rendering ${shapes.length.toLocaleString()} shapes.`}
+      </p>
+      <div className={`transition-opacity ${isUpdating ? 'opacity-50' : 'opacity-100'}`}>
+        <ShapesGrid shapes={shapes} />
+      </div>
+    </div>
+  );
+};
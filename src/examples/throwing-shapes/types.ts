@@ -8,3 +8,8 @@ export interface Shape {
   size: number;
   color: string;
 }
+
+/** What every variant is given; the application owns the slider so variants see the same count */
+export interface ThrowingShapesInputs {
+  shapeCount: number;
+}
@@ -0,0 +1,15 @@
+import { defineLab } from '$/common/labs';
+import type { ThrowingShapesInputs } from '../types';
+import { Unoptimized } from './unoptimized';
+import { WithUseDeferredValue } from './use-deferred-value';
+
+export const throwingShapesLab = defineLab<ThrowingShapesInputs>('throwing-shapes', {
+  unoptimized: {
+    component: Unoptimized,
+    description: 'Renders every shape in the same update as the slider moving.',
+  },
+  useDeferredValue: {
+    component: WithUseDeferredValue,
+    description: 'Renders from a deferred copy of the count that lags behind the slider.',
+  },
+});
@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { ShapesResults } from '../components/shapes-results';
+import type { ThrowingShapesInputs } from '../types';
+import { generateShapes } from '../utilities/generate-shapes';
+
+export const Unoptimized = ({ shapeCount }: ThrowingShapesInputs) => {
+  // Generates and renders every shape in the same update as the slider moving
+  const shapes = useMemo(() => generateShapes(shapeCount), [shapeCount]);
+
+  return <ShapesResults shapes={shapes} shapeCount={shapeCount} />;
+};
@@ -0,0 +1,13 @@
+import { useDeferredValue, useMemo } from 'react';
+import { ShapesResults } from '../components/shapes-results';
+import type { ThrowingShapesInputs } from '../types';
+import { generateShapes } from '../utilities/generate-shapes';
+
+export const WithUseDeferredValue = ({ shapeCount }: ThrowingShapesInputs) => {
+  const deferredShapeCount = useDeferredValue(shapeCount);
+  const isUpdating = shapeCount !== deferredShapeCount;
+
+  const shapes = useMemo(() => generateShapes(deferredShapeCount), [deferredShapeCount]);
+
+  return <ShapesResults shapes={shapes} shapeCount={shapeCount} isUpdating={isUpdating} />;
+};
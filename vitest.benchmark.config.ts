@@ -0,0 +1,18 @@
+/// <reference types="vitest/config" />
+import { defineConfig, mergeConfig } from 'vite';
+import viteConfig from './vite.config';
+import { createBenchmarkReporter } from './src/common/benchmarks/reporter';
+
+// Used by `npm run benchmark` only, so `npm test` keeps Vitest's default test files
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      include: ['src/**/*.benchmark.tsx'],
+      environment: 'happy-dom',
+      environmentOptions: { happyDOM: { url: 'http://localhost:5173/' } },
+      setupFiles: ['src/common/benchmarks/setup.ts'],
+      reporters: ['default', createBenchmarkReporter()],
+    },
+  }),
+);